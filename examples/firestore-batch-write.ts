@@ -27,6 +27,12 @@ async function main() {
 
     const remaining = await db.collection('users').get();
     console.log('Remaining:', remaining.docs.map((d) => d.data().name));
+
+    // create() fails the whole batch if the document already exists
+    const batch3 = db.batch();
+    batch3.create(db.doc('users/u4'), { name: 'Dana' });
+    batch3.create(db.doc('users/u1'), { name: 'Duplicate' });
+    await batch3.commit().catch((error) => console.log('Batch rejected:', error.message));
 }
 
 main().catch(console.error);
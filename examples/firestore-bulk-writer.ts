@@ -0,0 +1,30 @@
+/**
+ * Large backfills with bulkWriter()
+ */
+
+import { FieldValue, StubFirestoreDatabase } from 'ts-firebase-simulator';
+
+async function main() {
+    const db = new StubFirestoreDatabase();
+    db.seed('users/user-1', { name: 'Alice' });
+    db.seed('users/user-2', { name: 'Bob' });
+
+    // Simulate a flaky backend: the first two attempts to write user-2 fail with UNAVAILABLE
+    db.injectBulkWriterFailure('users/user-2', 2);
+
+    const writer = db.bulkWriter();
+    writer.onWriteError((error) => {
+        console.log(`Write to ${error.documentRef.path} failed (attempt ${error.failedAttempts}), retrying`);
+        return error.failedAttempts < 5;
+    });
+
+    // Each write is applied independently - one failure doesn't affect the others
+    for (const id of ['user-1', 'user-2']) {
+        writer.update(db.doc(`users/${id}`), { migratedAt: FieldValue.serverTimestamp() });
+    }
+
+    await writer.close();
+    console.log('Migrated:', Array.from(db.getAllDocuments().keys()));
+}
+
+main().catch(console.error);
@@ -0,0 +1,34 @@
+/**
+ * Typed documents with withConverter()
+ */
+
+import { type FirestoreDataConverter, StubFirestoreDatabase } from 'ts-firebase-simulator';
+
+class User {
+    constructor(readonly name: string, readonly email: string) {}
+}
+
+const userConverter: FirestoreDataConverter<User> = {
+    toFirestore: (user: Partial<User>) => ({ name: user.name, email: user.email }),
+    fromFirestore: (snapshot) => {
+        const data = snapshot.data()!;
+        return new User(data.name, data.email);
+    },
+};
+
+async function main() {
+    const db = new StubFirestoreDatabase();
+    const users = db.collection('users').withConverter(userConverter);
+
+    // Writes go through toFirestore
+    await users.doc('user-1').set(new User('Alice', 'alice@example.com'));
+
+    // Reads and query results go through fromFirestore
+    const doc = await users.doc('user-1').get();
+    console.log('User instance:', doc.data() instanceof User);
+
+    const snapshot = await users.where('name', '==', 'Alice').get();
+    snapshot.forEach((result) => console.log('Found:', result.data()?.email));
+}
+
+main().catch(console.error);
@@ -0,0 +1,32 @@
+/**
+ * Testing error handling with failNext() and failRandomly()
+ */
+
+import { FirestoreError, StubFirestoreDatabase } from 'ts-firebase-simulator';
+
+async function main() {
+    const db = new StubFirestoreDatabase();
+    db.seed('orders/order-1', { status: 'pending' });
+
+    // The next update to any order fails with PERMISSION_DENIED
+    db.failNext({ op: 'update', path: 'orders/{orderId}', code: 'permission-denied' });
+
+    try {
+        await db.doc('orders/order-1').update({ status: 'paid' });
+    } catch (error) {
+        console.log('Update failed:', (error as FirestoreError).code, (error as FirestoreError).message);
+    }
+
+    // Roughly one in ten reads times out, until the fault is removed
+    const removeFault = db.failRandomly({ op: ['get', 'query'], code: 'deadline-exceeded', probability: 0.1 });
+
+    let failures = 0;
+    for (let i = 0; i < 100; i++) {
+        await db.doc('orders/order-1').get().catch(() => failures++);
+    }
+    removeFault();
+
+    console.log(`${failures} of 100 reads failed`);
+}
+
+main().catch(console.error);
@@ -0,0 +1,27 @@
+/**
+ * Sum and average with aggregate queries
+ */
+
+import { AggregateField, StubFirestoreDatabase } from 'ts-firebase-simulator';
+
+async function main() {
+    const db = new StubFirestoreDatabase();
+    db.seed('orders/o1', { customer: 'alice', amount: 20 });
+    db.seed('orders/o2', { customer: 'bob', amount: 35 });
+    db.seed('orders/o3', { customer: 'alice', amount: 45 });
+
+    // Compute several aggregations in one query
+    const totals = await db.collection('orders')
+        .where('customer', '==', 'alice')
+        .aggregate({
+            orders: AggregateField.count(),
+            total: AggregateField.sum('amount'),
+            avg: AggregateField.average('amount'),
+        })
+        .get();
+
+    const { orders, total, avg } = totals.data();
+    console.log(`Alice: ${orders} orders, total ${total}, average ${avg}`);
+}
+
+main().catch(console.error);
@@ -23,6 +23,14 @@ async function main() {
         lastLogin: FieldValue.serverTimestamp(),
     });
 
+    // Atomic array operations - arrayUnion skips values already present
+    await db.doc('users/user-1').update({
+        tags: FieldValue.arrayUnion('admin', 'beta'),
+    });
+    await db.doc('users/user-1').update({
+        tags: FieldValue.arrayRemove('beta'),
+    });
+
     const doc = await db.doc('users/user-1').get();
     console.log('Updated:', doc.data());
 }
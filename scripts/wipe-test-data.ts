@@ -43,38 +43,15 @@ function getServiceAccountPath(): string {
 }
 
 async function deleteCollection(db: FirebaseFirestore.Firestore, collectionPath: string): Promise<number> {
-    const collectionRef = db.collection(collectionPath);
-    const snapshot = await collectionRef.get();
-
-    if (snapshot.empty) {
-        return 0;
-    }
-
+    // recursiveDelete also removes every subcollection, so nested test data doesn't need listing here
+    const writer = db.bulkWriter();
     let deleted = 0;
+    writer.onWriteResult(() => {
+        deleted++;
+    });
 
-    // Delete subcollections first
-    for (const doc of snapshot.docs) {
-        // Check for known subcollections
-        for (const subcollection of ['items', 'members', 'children']) {
-            const subSnapshot = await doc.ref.collection(subcollection).get();
-            if (!subSnapshot.empty) {
-                const batch = db.batch();
-                subSnapshot.docs.forEach((subDoc) => batch.delete(subDoc.ref));
-                await batch.commit();
-                deleted += subSnapshot.size;
-            }
-        }
-    }
-
-    // Delete main documents in batches of 500
-    const batchSize = 500;
-    for (let i = 0; i < snapshot.docs.length; i += batchSize) {
-        const batch = db.batch();
-        const chunk = snapshot.docs.slice(i, i + batchSize);
-        chunk.forEach((doc) => batch.delete(doc.ref));
-        await batch.commit();
-        deleted += chunk.length;
-    }
+    await db.recursiveDelete(db.collection(collectionPath), writer);
+    await writer.close();
 
     return deleted;
 }
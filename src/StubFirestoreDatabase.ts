@@ -6,11 +6,17 @@
  * over data and behavior.
  */
 
-import { Timestamp } from 'firebase-admin/firestore';
+import { type AggregateSpec, type AggregateSpecData, GeoPoint, Timestamp } from 'firebase-admin/firestore';
 import type {
+    BulkWriterOperationType,
+    DocumentData,
+    FirestoreDataConverter,
     IAggregateQuery,
     IAggregateQuerySnapshot,
+    IBulkWriter,
+    IBulkWriterError,
     ICollectionReference,
+    IDocumentChange,
     IDocumentReference,
     IDocumentSnapshot,
     IFirestoreDatabase,
@@ -18,10 +24,76 @@ import type {
     IQuerySnapshot,
     ITransaction,
     IWriteBatch,
+    IWriteResult,
     OrderByDirection,
+    Precondition,
+    ReadOptions,
     SetOptions,
+    TransactionOptions,
     WhereFilterOp,
 } from './firestore-types';
+import { FirestoreError, type FirestoreErrorCode, toGrpcStatusCode } from './firestore-errors';
+import { type FirestoreIndexConfig, FirestoreIndexSet, loadIndexConfig, type QueryIndexRequirement, unique } from './firestore-indexes';
+
+export interface StubFirestoreDatabaseOptions {
+    /**
+     * Index definitions in firestore.indexes.json format, or a path to that file.
+     * When provided, queries needing a composite or collection group index that isn't declared are rejected.
+     */
+    indexes?: FirestoreIndexConfig | string;
+    /**
+     * Skip undefined values in written data, like the admin SDK's `ignoreUndefinedProperties` setting.
+     * Otherwise writes containing undefined values are rejected.
+     */
+    ignoreUndefinedProperties?: boolean;
+    /**
+     * Validate data passed to seed() the same way as writes. Off by default, so fixtures are stored as given.
+     */
+    validateSeedData?: boolean;
+}
+
+/**
+ * Operations that injected faults can fail. Batches and transactions fail as a whole on commit.
+ * BulkWriter writes, including recursiveDelete()'s deletes, fail on 'bulkWriter' faults and on faults
+ * for their own write operation.
+ */
+export type FirestoreFaultOperation = 'get' | 'query' | 'create' | 'set' | 'update' | 'delete' | 'batch' | 'transaction' | 'bulkWriter' | 'listen';
+
+export interface FirestoreFaultOptions {
+    /**
+     * Operation, or operations, to fail. Defaults to every operation.
+     */
+    op?: FirestoreFaultOperation | FirestoreFaultOperation[];
+    /**
+     * Path pattern in trigger syntax ('orders/{orderId}', 'orders/*', 'orders/**'). Defaults to every path.
+     * Documents match on their path, queries on their collection path (or collection ID for collection
+     * groups), and batches and transactions on any document they touch.
+     */
+    path?: string;
+    /**
+     * Error code, by name or numeric gRPC status. Defaults to 'unavailable'.
+     */
+    code?: FirestoreErrorCode | number;
+    /**
+     * Error details. Defaults to a description of the failed operation.
+     */
+    message?: string;
+    /**
+     * Number of matching operations to fail before the fault is removed
+     */
+    times?: number;
+}
+
+export interface FirestoreRandomFaultOptions extends FirestoreFaultOptions {
+    /**
+     * Chance, from 0 to 1, that each matching operation fails
+     */
+    probability: number;
+    /**
+     * Random number source returning values in [0, 1), for reproducible tests. Defaults to Math.random.
+     */
+    random?: () => number;
+}
 
 export type FirestoreTriggerEventType = 'create' | 'update' | 'delete';
 
@@ -58,16 +130,88 @@ interface TriggerEventRecord {
 interface DocumentWatcher {
     callback: (snapshot: IDocumentSnapshot) => void;
     error?: (error: Error) => void;
+    /** Converter of the reference the listener was attached through */
+    converter: FirestoreDataConverter<any> | null;
 }
 
 interface QueryWatcher {
     query: StubQuery;
+    /** Collection path (or collection ID for collection groups) that 'listen' faults match */
+    path: string;
     callback: (snapshot: IQuerySnapshot) => void;
     error?: (error: Error) => void;
+    /** Results delivered by the previous snapshot, used to compute docChanges() */
+    previousDocuments?: StoredDocument[];
+}
+
+interface FaultRule {
+    operations: FirestoreFaultOperation[] | null;
+    regex: RegExp | null;
+    code: number;
+    message?: string;
+    remaining: number;
+    probability: number;
+    random: () => number;
 }
 
 const PATH_PARAM_REGEX = /^\{(.+)\}$/;
 
+const DEFAULT_MAX_TRANSACTION_ATTEMPTS = 5;
+
+/**
+ * Maximum number of writes in a single batch commit
+ */
+const MAX_BATCH_WRITES = 500;
+
+const READ_AFTER_WRITE_ERROR_MSG = 'Firestore transactions require all reads to be executed before all writes.';
+const READ_ONLY_WRITE_ERROR_MSG = 'Firestore read-only transactions cannot execute writes.';
+
+/**
+ * gRPC status codes the admin SDK retries a transaction on
+ * (ABORTED, CANCELLED, UNKNOWN, DEADLINE_EXCEEDED, INTERNAL, UNAVAILABLE, UNAUTHENTICATED, RESOURCE_EXHAUSTED)
+ */
+const RETRYABLE_TRANSACTION_CODES = new Set([10, 1, 2, 4, 13, 14, 16, 8]);
+
+/**
+ * gRPC status codes BulkWriter retries by default (RESOURCE_EXHAUSTED, ABORTED, UNAVAILABLE), up to 10 attempts
+ */
+const BULK_WRITER_RETRY_CODES = new Set([8, 10, 14]);
+const MAX_BULK_WRITER_ATTEMPTS = 10;
+
+/**
+ * Number of queued writes at which BulkWriter sends a batch without waiting
+ */
+const BULK_WRITER_BATCH_SIZE = 20;
+
+/**
+ * Write validation limits, matching the SDK (nesting depth) and the backend (document size, reserved names)
+ */
+const MAX_WRITE_DEPTH = 20;
+const MAX_DOCUMENT_SIZE = 1024 * 1024;
+const RESERVED_NAME_REGEX = /^__.*__$/;
+const UNESCAPED_FIELD_NAME_REGEX = /^[_a-zA-Z][_a-zA-Z0-9]*$/;
+const FIELD_PATH_REGEX = /^[^*~/[\]]+$/;
+const MAX_RESOURCE_ID_BYTES = 1500;
+const UPDATE_ARGUMENT_ERROR_MSG = 'Update() requires either a single JavaScript object or an alternating list of field/value pairs that can be followed by an optional precondition.';
+
+const TRANSACTION_CONTENTION_MSG = 'Too much contention on these documents. Please try again.';
+
+/**
+ * Error for a failed BulkWriter operation, passed to onWriteError callbacks
+ */
+class BulkWriterError extends Error implements IBulkWriterError {
+    constructor(
+        readonly code: number,
+        message: string,
+        readonly documentRef: IDocumentReference,
+        readonly operationType: BulkWriterOperationType,
+        readonly failedAttempts: number,
+    ) {
+        super(message);
+        this.name = 'BulkWriterError';
+    }
+}
+
 function escapeRegex(segment: string): string {
     return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -111,9 +255,9 @@ function cloneValue<T>(value: T): T {
         return value.map((item) => cloneValue(item)) as T;
     }
 
-    if (value && typeof value === 'object') {
+    if (isPlainObject(value)) {
         const cloned: Record<string, any> = {};
-        for (const [key, val] of Object.entries(value)) {
+        for (const [key, val] of Object.entries(value as Record<string, any>)) {
             cloned[key] = cloneValue(val);
         }
         return cloned as T;
@@ -122,6 +266,179 @@ function cloneValue<T>(value: T): T {
     return value;
 }
 
+/**
+ * Firestore's cross-type value ordering:
+ * null < booleans < numbers < timestamps < strings < bytes < references < geopoints < arrays < maps
+ */
+const enum ValueTypeOrder {
+    Null = 0,
+    Boolean = 1,
+    Number = 2,
+    Timestamp = 3,
+    String = 4,
+    Bytes = 5,
+    Reference = 6,
+    GeoPoint = 7,
+    Array = 8,
+    Map = 9,
+}
+
+function isDocumentReferenceValue(value: any): boolean {
+    return value instanceof StubDocumentReference || value?.constructor?.name === 'DocumentReference';
+}
+
+function getValueTypeOrder(value: any): ValueTypeOrder {
+    if (value === null || value === undefined) {
+        return ValueTypeOrder.Null;
+    }
+    if (typeof value === 'boolean') {
+        return ValueTypeOrder.Boolean;
+    }
+    if (typeof value === 'number') {
+        return ValueTypeOrder.Number;
+    }
+    if (value instanceof Timestamp || value instanceof Date) {
+        return ValueTypeOrder.Timestamp;
+    }
+    if (typeof value === 'string') {
+        return ValueTypeOrder.String;
+    }
+    if (value instanceof Uint8Array) {
+        return ValueTypeOrder.Bytes;
+    }
+    if (isDocumentReferenceValue(value)) {
+        return ValueTypeOrder.Reference;
+    }
+    if (value instanceof GeoPoint) {
+        return ValueTypeOrder.GeoPoint;
+    }
+    if (Array.isArray(value)) {
+        return ValueTypeOrder.Array;
+    }
+    return ValueTypeOrder.Map;
+}
+
+function compareNumbers(a: number, b: number): number {
+    // Firestore sorts NaN before all other numbers and treats NaN as equal to itself
+    if (Number.isNaN(a)) {
+        return Number.isNaN(b) ? 0 : -1;
+    }
+    if (Number.isNaN(b)) {
+        return 1;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareStrings(a: string, b: string): number {
+    // Firestore orders strings by their UTF-8 encoding
+    return Buffer.compare(Buffer.from(a, 'utf8'), Buffer.from(b, 'utf8'));
+}
+
+function toTimestamp(value: Timestamp | Date): Timestamp {
+    return value instanceof Date ? Timestamp.fromDate(value) : value;
+}
+
+function compareReferencePaths(a: string, b: string): number {
+    const aSegments = a.split('/');
+    const bSegments = b.split('/');
+    const length = Math.min(aSegments.length, bSegments.length);
+    for (let i = 0; i < length; i++) {
+        const comparison = compareStrings(aSegments[i], bSegments[i]);
+        if (comparison !== 0) {
+            return comparison;
+        }
+    }
+    return compareNumbers(aSegments.length, bSegments.length);
+}
+
+/**
+ * Compare two Firestore values using Firestore's ordering rules
+ * @returns Negative if a sorts first, positive if b sorts first, 0 if equal
+ */
+function compareValues(a: any, b: any): number {
+    const aType = getValueTypeOrder(a);
+    const bType = getValueTypeOrder(b);
+    if (aType !== bType) {
+        return aType < bType ? -1 : 1;
+    }
+
+    switch (aType) {
+        case ValueTypeOrder.Null:
+            return 0;
+        case ValueTypeOrder.Boolean:
+            return a === b ? 0 : a ? 1 : -1;
+        case ValueTypeOrder.Number:
+            return compareNumbers(a, b);
+        case ValueTypeOrder.Timestamp: {
+            const aTimestamp = toTimestamp(a);
+            const bTimestamp = toTimestamp(b);
+            return compareNumbers(aTimestamp.seconds, bTimestamp.seconds) || compareNumbers(aTimestamp.nanoseconds, bTimestamp.nanoseconds);
+        }
+        case ValueTypeOrder.String:
+            return compareStrings(a, b);
+        case ValueTypeOrder.Bytes:
+            return Buffer.compare(Buffer.from(a), Buffer.from(b));
+        case ValueTypeOrder.Reference:
+            return compareReferencePaths(a.path, b.path);
+        case ValueTypeOrder.GeoPoint:
+            return compareNumbers(a.latitude, b.latitude) || compareNumbers(a.longitude, b.longitude);
+        case ValueTypeOrder.Array: {
+            const length = Math.min(a.length, b.length);
+            for (let i = 0; i < length; i++) {
+                const comparison = compareValues(a[i], b[i]);
+                if (comparison !== 0) {
+                    return comparison;
+                }
+            }
+            return compareNumbers(a.length, b.length);
+        }
+        case ValueTypeOrder.Map: {
+            const aKeys = Object.keys(a).sort(compareStrings);
+            const bKeys = Object.keys(b).sort(compareStrings);
+            const length = Math.min(aKeys.length, bKeys.length);
+            for (let i = 0; i < length; i++) {
+                const comparison = compareStrings(aKeys[i], bKeys[i]) || compareValues(a[aKeys[i]], b[bKeys[i]]);
+                if (comparison !== 0) {
+                    return comparison;
+                }
+            }
+            return compareNumbers(aKeys.length, bKeys.length);
+        }
+    }
+}
+
+/**
+ * Value-based equality using Firestore semantics (Timestamps, Dates, arrays, maps and references compare by value)
+ */
+function valuesEqual(a: any, b: any): boolean {
+    return compareValues(a, b) === 0;
+}
+
+/**
+ * FieldValue.arrayUnion(): append elements not already present (compared by value).
+ * A missing or non-array field is replaced by the de-duplicated elements.
+ */
+function applyArrayUnion(currentValue: any, elements: any[]): any[] {
+    const result: any[] = Array.isArray(currentValue) ? [...currentValue] : [];
+    for (const element of elements) {
+        if (!result.some((existing) => valuesEqual(existing, element))) {
+            result.push(cloneValue(element));
+        }
+    }
+    return result;
+}
+
+/**
+ * FieldValue.arrayRemove(): remove every instance of the elements (compared by value).
+ * A missing or non-array field is replaced by an empty array.
+ */
+function applyArrayRemove(currentValue: any, elements: any[]): any[] {
+    if (!Array.isArray(currentValue)) {
+        return [];
+    }
+    return currentValue.filter((existing) => !elements.some((element) => valuesEqual(existing, element)));
+}
+
 function cloneStoredDocument(doc: StoredDocument | null): StoredDocument | null {
     if (!doc) {
         return null;
@@ -132,9 +449,357 @@ function cloneStoredDocument(doc: StoredDocument | null): StoredDocument | null
         path: doc.path,
         exists: doc.exists,
         data: cloneValue(doc.data),
+        createTime: doc.createTime,
+        updateTime: doc.updateTime,
     };
 }
 
+function toTimestampFromMicros(micros: number): Timestamp {
+    return new Timestamp(Math.floor(micros / 1_000_000), (micros % 1_000_000) * 1000);
+}
+
+function toMicros(timestamp: Timestamp): number {
+    return timestamp.seconds * 1_000_000 + Math.floor(timestamp.nanoseconds / 1000);
+}
+
+/**
+ * Validate a write precondition the way the SDK does before sending it
+ * @param allowedExists - Values of `exists` the operation accepts (update only allows true)
+ */
+function validatePrecondition(precondition: Precondition | undefined, allowedExists: boolean[] = [true, false]): void {
+    if (precondition === undefined) {
+        return;
+    }
+    if (typeof precondition !== 'object' || precondition === null) {
+        throw new Error('Input is not an object.');
+    }
+
+    const prefix = 'Value for argument "precondition" is not a valid precondition.';
+    let conditions = 0;
+    if (precondition.exists !== undefined) {
+        conditions++;
+        if (typeof precondition.exists !== 'boolean') {
+            throw new Error(`${prefix} "exists" is not a boolean.`);
+        }
+        if (!allowedExists.includes(precondition.exists)) {
+            throw new Error(`${prefix} "exists" is not allowed to have the value ${precondition.exists} (allowed values: ${allowedExists.join(', ')})`);
+        }
+    }
+    if (precondition.lastUpdateTime !== undefined) {
+        conditions++;
+        if (!(precondition.lastUpdateTime instanceof Timestamp)) {
+            throw new Error(`${prefix} "lastUpdateTime" is not a Firestore Timestamp.`);
+        }
+    }
+    if (conditions > 1) {
+        throw new Error(`${prefix} Input specifies more than one precondition.`);
+    }
+}
+
+/**
+ * Throw the error Firestore returns when a precondition does not hold for the stored document
+ */
+function assertPrecondition(path: string, doc: StoredDocument | undefined, precondition: Precondition | undefined): void {
+    if (!precondition) {
+        return;
+    }
+
+    const existing = doc?.exists ? doc : undefined;
+    if (precondition.exists === true && !existing) {
+        throw new FirestoreError('not-found', `No document to update: ${path}`);
+    }
+    if (precondition.exists === false && existing) {
+        throw new FirestoreError('already-exists', `Document already exists: ${path}`);
+    }
+    if (precondition.lastUpdateTime && !existing?.updateTime.isEqual(precondition.lastUpdateTime)) {
+        const storedVersion = existing ? toMicros(existing.updateTime) : 0;
+        throw new FirestoreError('failed-precondition', `the stored version (${storedVersion}) does not match the required base version (${toMicros(precondition.lastUpdateTime)})`);
+    }
+}
+
+/**
+ * Check whether a value is a plain JavaScript object, using the same test as the SDK
+ */
+function isPlainObject(value: any): boolean {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null || value.constructor?.name === 'Object';
+}
+
+function isDeleteSentinel(value: any): boolean {
+    return value?.constructor?.name === 'DeleteTransform';
+}
+
+/**
+ * Where FieldValue.delete() may appear in written data: nowhere (set), on top-level fields (update) or anywhere (merge set)
+ */
+type DeleteSentinelPlacement = 'none' | 'root' | 'all';
+
+interface WriteValidationOptions {
+    description: string;
+    allowDeletes: DeleteSentinelPlacement;
+    allowUndefined: boolean;
+}
+
+/**
+ * Format field path segments like the SDK's FieldPath, quoting segments that aren't simple identifiers
+ */
+function formatFieldPath(segments: string[]): string {
+    return segments.map((segment) => UNESCAPED_FIELD_NAME_REGEX.test(segment) ? segment : `\`${segment.replace(/\\/g, '\\\\').replace(/`/g, '\\`')}\``).join('.');
+}
+
+function invalidArgumentMessage(argumentName: string, description: string): string {
+    return `Value for argument "${argumentName}" is not a valid ${description}.`;
+}
+
+function customObjectMessage(argumentName: string, value: any, fieldPath?: string[]): string {
+    const prefix = invalidArgumentMessage(argumentName, 'Firestore document');
+    const fieldPathMessage = fieldPath ? ` (found in field "${formatFieldPath(fieldPath)}")` : '';
+    if (Object.prototype.toString.call(value) !== '[object Object]') {
+        return `${prefix} Input is not a plain JavaScript object${fieldPathMessage}.`;
+    }
+    return `${prefix} Couldn't serialize object of type "${value.constructor?.name}"${fieldPathMessage}. Firestore doesn't support JavaScript objects with custom prototypes (i.e. objects that were created via the "new" operator).`;
+}
+
+/**
+ * Recursively validate a written value, mirroring the SDK's client-side checks
+ */
+function validateWriteValue(argumentName: string, value: any, options: WriteValidationOptions, fieldPath?: string[], level: number = 0, inArray: boolean = false): void {
+    const prefix = invalidArgumentMessage(argumentName, options.description);
+    if (fieldPath && fieldPath.length - 1 > MAX_WRITE_DEPTH) {
+        throw new Error(`${prefix} Input object is deeper than ${MAX_WRITE_DEPTH} levels or contains a cycle.`);
+    }
+
+    const fieldPathMessage = fieldPath ? ` (found in field "${formatFieldPath(fieldPath)}")` : '';
+    if (Array.isArray(value)) {
+        value.forEach((element, index) => validateWriteValue(argumentName, element, options, [...(fieldPath ?? []), String(index)], level + 1, true));
+    } else if (isPlainObject(value)) {
+        for (const key of Object.keys(value)) {
+            if (key === '') {
+                throw new Error('Element at index 0 should not be an empty string.');
+            }
+            validateWriteValue(argumentName, value[key], options, [...(fieldPath ?? []), key], level + 1, inArray);
+        }
+    } else if (value === undefined) {
+        if (options.allowUndefined && level === 0) {
+            throw new Error(`${prefix} "undefined" values are only ignored inside of objects.`);
+        } else if (!options.allowUndefined) {
+            throw new Error(`${prefix} Cannot use "undefined" as a Firestore value${fieldPathMessage}. If you want to ignore undefined values, enable \`ignoreUndefinedProperties\`.`);
+        }
+    } else if (typeof value === 'function') {
+        throw new Error(`Cannot encode value: ${value}`);
+    } else if (value?.constructor?.name?.endsWith('Transform')) {
+        if (inArray) {
+            throw new Error(`${prefix} ${value.methodName}() cannot be used inside of an array${fieldPathMessage}.`);
+        }
+        const isTopLevelField = level === 0 || (level === 1 && fieldPath?.length === 1);
+        if (isDeleteSentinel(value) && (options.allowDeletes === 'none' || (options.allowDeletes === 'root' && !isTopLevelField))) {
+            throw new Error(`${prefix} ${value.methodName}() must appear at the top-level and can only be used in update() or set() with {merge:true}${fieldPathMessage}.`);
+        }
+    } else if (value?.constructor?.name === 'FieldPath') {
+        throw new Error(`${prefix} Cannot use object of type "FieldPath" as a Firestore value${fieldPathMessage}.`);
+    } else if (
+        value === null
+        || typeof value !== 'object'
+        || value instanceof Timestamp
+        || value instanceof Date
+        || value instanceof GeoPoint
+        || value instanceof Uint8Array
+        || isDocumentReferenceValue(value)
+        || value.constructor?.name === 'VectorValue'
+    ) {
+        // Ok
+    } else {
+        throw new Error(customObjectMessage(argumentName, value, fieldPath));
+    }
+}
+
+/**
+ * Validate data passed to set() or create()
+ */
+function validateSetData(data: any, merge: boolean, allowUndefined: boolean): void {
+    if (!isPlainObject(data)) {
+        throw new Error(customObjectMessage('data', data));
+    }
+    validateWriteValue('data', data, { description: 'Firestore document', allowDeletes: merge ? 'all' : 'none', allowUndefined });
+}
+
+/**
+ * Validate the field map passed to update(), including its dotted field paths
+ */
+function validateUpdateData(data: any, allowUndefined: boolean): void {
+    const fields = isPlainObject(data) ? Object.keys(data).filter((field) => data[field] !== undefined) : [];
+    try {
+        if (!isPlainObject(data)) {
+            throw new Error(customObjectMessage('dataOrField', data));
+        }
+        if (Object.keys(data).length === 0) {
+            throw new Error('At least one field must be updated.');
+        }
+        validateWriteValue('dataOrField', data, { description: 'Firestore value', allowDeletes: 'root', allowUndefined });
+        fields.forEach((field) => validateUpdateFieldPath(field));
+    } catch (error) {
+        throw new Error(`${UPDATE_ARGUMENT_ERROR_MSG} ${(error as Error).message}`);
+    }
+
+    const paths = fields.map((field) => field.split('.'));
+    for (const path of paths) {
+        const conflict = paths.some((other) => other !== path && path.length < other.length && path.every((segment, index) => segment === other[index]));
+        if (conflict) {
+            throw new Error(`${invalidArgumentMessage('dataOrField', 'update map')} Field "${formatFieldPath(path)}" was specified multiple times.`);
+        }
+    }
+}
+
+function validateUpdateFieldPath(field: string): void {
+    const prefix = invalidArgumentMessage(field, 'field path');
+    if (field.includes('..')) {
+        throw new Error(`${prefix} Paths must not contain ".." in them.`);
+    }
+    if (field.startsWith('.') || field.endsWith('.')) {
+        throw new Error(`${prefix} Paths must not start or end with ".".`);
+    }
+    if (!FIELD_PATH_REGEX.test(field)) {
+        throw new Error(`${prefix} Paths can't be empty and must not contain\n    "*~/[]".`);
+    }
+}
+
+/**
+ * Drop undefined values the way the SDK's serializer does with `ignoreUndefinedProperties`: they are left
+ * out of maps and arrays, and a nested map left without fields is left out too (an empty map written as
+ * `{}` is kept)
+ */
+function removeUndefinedValues(data: DocumentData): DocumentData {
+    const result: DocumentData = {};
+    for (const [key, value] of Object.entries(data)) {
+        const encoded = encodeDefinedValue(value);
+        if (encoded !== undefined) {
+            result[key] = encoded;
+        }
+    }
+    return result;
+}
+
+/**
+ * A value with its undefined parts removed, or undefined when the SDK would leave the value out entirely
+ */
+function encodeDefinedValue(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(encodeDefinedValue).filter((element) => element !== undefined);
+    }
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+        const map = removeUndefinedValues(value);
+        return Object.keys(map).length > 0 ? map : undefined;
+    }
+    return value;
+}
+
+function stringSize(value: string): number {
+    return Buffer.byteLength(value, 'utf8') + 1;
+}
+
+function documentNameSize(path: string): number {
+    return path.split('/').reduce((size, segment) => size + stringSize(segment), 16);
+}
+
+/**
+ * Storage size of a value, following Firestore's documented size calculation
+ */
+function valueSize(value: any): number {
+    if (value === null || value === undefined || typeof value === 'boolean') {
+        return 1;
+    }
+    if (typeof value === 'number' || value instanceof Timestamp || value instanceof Date) {
+        return 8;
+    }
+    if (typeof value === 'string') {
+        return stringSize(value);
+    }
+    if (value instanceof Uint8Array) {
+        return value.length;
+    }
+    if (value instanceof GeoPoint) {
+        return 16;
+    }
+    if (isDocumentReferenceValue(value)) {
+        return documentNameSize(value.path);
+    }
+    if (Array.isArray(value)) {
+        return value.reduce((size: number, element) => size + valueSize(element), 0);
+    }
+    if (typeof value === 'object') {
+        return Object.entries(value).reduce((size, [key, element]) => size + stringSize(key) + valueSize(element), 0);
+    }
+    return 8;
+}
+
+function findReservedFieldName(value: any): string | undefined {
+    const children = Array.isArray(value) ? value : isPlainObject(value) ? Object.values(value) : [];
+    if (isPlainObject(value)) {
+        const reserved = Object.keys(value).find((key) => RESERVED_NAME_REGEX.test(key));
+        if (reserved) {
+            return reserved;
+        }
+    }
+    for (const child of children) {
+        const reserved = findReservedFieldName(child);
+        if (reserved) {
+            return reserved;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Reject documents the backend refuses to store: reserved field names and documents over 1 MiB
+ */
+function assertStorableDocument(path: string, data: DocumentData): void {
+    const reserved = findReservedFieldName(data);
+    if (reserved) {
+        throw new FirestoreError('invalid-argument', `Field name "${reserved}" is reserved.`);
+    }
+
+    const size = documentNameSize(path) + valueSize(data) + 32;
+    if (size > MAX_DOCUMENT_SIZE) {
+        const limit = MAX_DOCUMENT_SIZE.toLocaleString('en-US');
+        throw new FirestoreError('invalid-argument', `Document "${path}" cannot be written because its size (${size.toLocaleString('en-US')} bytes) exceeds the maximum allowed size of ${limit} bytes.`);
+    }
+}
+
+/**
+ * Resolve a slash-separated path relative to a parent path like the SDK: empty segments from leading or
+ * trailing slashes are dropped, and the result must point to a collection (odd number of segments) or a
+ * document (even number). IDs the backend would reject are caught here too.
+ */
+function resolveResourcePath(argumentName: 'collectionPath' | 'documentPath', parentPath: string, relativePath: string): string {
+    if (typeof relativePath !== 'string' || relativePath === '') {
+        throw new Error(`${invalidArgumentMessage(argumentName, 'resource path')} Path must be a non-empty string.`);
+    }
+    if (relativePath.includes('//')) {
+        throw new Error(`${invalidArgumentMessage(argumentName, 'resource path')} Paths must not contain //.`);
+    }
+
+    const segments = [...(parentPath ? parentPath.split('/') : []), ...relativePath.split('/').filter((segment) => segment.length > 0)];
+    if (argumentName === 'documentPath' && (segments.length === 0 || segments.length % 2 !== 0)) {
+        throw new Error(`Value for argument "documentPath" must point to a document, but was "${relativePath}". Your path does not contain an even number of components.`);
+    }
+    if (argumentName === 'collectionPath' && segments.length % 2 !== 1) {
+        throw new Error(`Value for argument "collectionPath" must point to a collection, but was "${relativePath}". Your path does not contain an odd number of components.`);
+    }
+
+    for (const id of segments) {
+        if (id === '.' || id === '..' || RESERVED_NAME_REGEX.test(id)) {
+            throw new FirestoreError('invalid-argument', `Resource id "${id}" is invalid because it is reserved.`);
+        }
+        if (Buffer.byteLength(id, 'utf8') > MAX_RESOURCE_ID_BYTES) {
+            throw new FirestoreError('invalid-argument', `Resource id "${id}" is invalid because it is longer than ${MAX_RESOURCE_ID_BYTES.toLocaleString('en-US')} bytes.`);
+        }
+    }
+    return segments.join('/');
+}
+
 /**
  * In-memory document storage
  */
@@ -143,15 +808,104 @@ interface StoredDocument {
     path: string;
     data: any;
     exists: boolean;
+    createTime: Timestamp;
+    updateTime: Timestamp;
+}
+
+/**
+ * A write whose data was converted and validated by prepareSetData() / prepareUpdateData(),
+ * and whose precondition was validated, when it was added
+ */
+type DocumentWrite =
+    | { type: 'set'; data: DocumentData; options?: SetOptions; }
+    | { type: 'create'; data: DocumentData; }
+    | { type: 'update'; data: any; precondition?: Precondition; }
+    | { type: 'delete'; precondition?: Precondition; };
+
+interface PendingWrite {
+    ref: StubDocumentReference;
+    write: DocumentWrite;
+}
+
+/**
+ * Convert stored document data with the reference's converter, if it has one. Like the SDK,
+ * fromFirestore receives a snapshot of the unconverted document.
+ */
+function readDocumentData<T>(docRef: StubDocumentReference<T>, document: StoredDocument, readTime: Timestamp, data: any): T {
+    if (!docRef.converter) {
+        return data;
+    }
+    return docRef.converter.fromFirestore(new StaticDocumentSnapshot(docRef.withConverter(null), document, readTime));
+}
+
+/**
+ * IDs of the collections or documents directly below a path that have stored documents beneath them,
+ * so documents that only exist as parents of subcollections are included
+ * @param parentPath - Path to list under ('' for the database root)
+ */
+function listChildIds(storage: Map<string, StoredDocument>, parentPath: string): string[] {
+    const prefix = parentPath ? `${parentPath}/` : '';
+    const ids = new Set<string>();
+    for (const path of storage.keys()) {
+        if (path.startsWith(prefix)) {
+            ids.add(path.slice(prefix.length).split('/')[0]);
+        }
+    }
+    return Array.from(ids).sort(compareStrings);
+}
+
+/**
+ * Split getAll() arguments into document references and the field mask of an optional trailing ReadOptions
+ */
+function parseGetAllArguments<T>(functionName: string, args: Array<IDocumentReference<T> | ReadOptions>): { documentRefs: StubDocumentReference<T>[]; fieldMask?: string[]; } {
+    if (args.length < 1) {
+        throw new Error(`Function "${functionName}()" requires at least 1 argument.`);
+    }
+
+    const last = args[args.length - 1];
+    const readOptions = Object.getPrototypeOf(last) === Object.prototype ? last as ReadOptions : undefined;
+    const documentRefs = (readOptions ? args.slice(0, -1) : args) as StubDocumentReference<T>[];
+    return { documentRefs, fieldMask: readOptions?.fieldMask?.map(normalizeFieldPath) };
+}
+
+/**
+ * Keep only the fields named by a field mask (dotted paths select nested fields)
+ */
+function applyFieldMask(data: any, fieldMask: string[]): any {
+    const result: any = {};
+    for (const field of fieldMask) {
+        const value = getNestedValue(data, field);
+        if (value === undefined) {
+            continue;
+        }
+
+        const parts = field.split('.');
+        let target = result;
+        for (const part of parts.slice(0, -1)) {
+            target[part] = target[part] ?? {};
+            target = target[part];
+        }
+        target[parts[parts.length - 1]] = cloneValue(value);
+    }
+    return result;
+}
+
+/**
+ * Snapshot a document for getAll(), restricting its data to the field mask when one is given
+ */
+function createMaskedSnapshot<T>(docRef: StubDocumentReference<T>, doc: StoredDocument | undefined, readTime: Timestamp, fieldMask?: string[]): StubDocumentSnapshot<T> {
+    const masked = doc?.exists && fieldMask ? { ...doc, data: applyFieldMask(doc.data, fieldMask) } : doc;
+    return new StubDocumentSnapshot(masked ?? null, docRef, readTime);
 }
 
 /**
  * Stub DocumentSnapshot implementation
  */
-class StubDocumentSnapshot implements IDocumentSnapshot {
+class StubDocumentSnapshot<T = any> implements IDocumentSnapshot<T> {
     constructor(
         private readonly document: StoredDocument | null,
-        private readonly docRef: IDocumentReference,
+        private readonly docRef: StubDocumentReference<T>,
+        readonly readTime: Timestamp,
     ) {}
 
     get exists(): boolean {
@@ -162,49 +916,87 @@ class StubDocumentSnapshot implements IDocumentSnapshot {
         return this.docRef.id;
     }
 
-    get ref(): IDocumentReference {
+    get ref(): IDocumentReference<T> {
         return this.docRef;
     }
 
-    data(): any | undefined {
+    get createTime(): Timestamp | undefined {
+        return this.document?.exists ? this.document.createTime : undefined;
+    }
+
+    get updateTime(): Timestamp | undefined {
+        return this.document?.exists ? this.document.updateTime : undefined;
+    }
+
+    data(): T | undefined {
+        return this.document?.exists ? readDocumentData(this.docRef, this.document, this.readTime, this.document.data) : undefined;
+    }
+
+    /**
+     * Stored data, ignoring any converter (used to build query cursors)
+     */
+    storedData(): DocumentData | undefined {
         return this.document?.exists ? this.document.data : undefined;
     }
 }
 
-class StaticDocumentSnapshot implements IDocumentSnapshot {
+class StaticDocumentSnapshot<T = any> implements IDocumentSnapshot<T> {
     constructor(
-        private readonly docRef: IDocumentReference,
-        private readonly existsValue: boolean,
-        private readonly dataValue: any | undefined,
+        private readonly docRef: StubDocumentReference<T>,
+        private readonly document: StoredDocument | null,
+        readonly readTime: Timestamp,
     ) {}
 
     get exists(): boolean {
-        return this.existsValue;
+        return this.document?.exists ?? false;
     }
 
     get id(): string {
         return this.docRef.id;
     }
 
-    get ref(): IDocumentReference {
+    get ref(): IDocumentReference<T> {
         return this.docRef;
     }
 
-    data(): any | undefined {
-        if (!this.existsValue) {
+    get createTime(): Timestamp | undefined {
+        return this.document?.exists ? this.document.createTime : undefined;
+    }
+
+    get updateTime(): Timestamp | undefined {
+        return this.document?.exists ? this.document.updateTime : undefined;
+    }
+
+    data(): T | undefined {
+        if (!this.document?.exists) {
             return undefined;
         }
-        return cloneValue(this.dataValue);
+        return readDocumentData(this.docRef, this.document, this.readTime, cloneValue(this.document.data));
+    }
+
+    /**
+     * Stored data, ignoring any converter (used to build query cursors)
+     */
+    storedData(): DocumentData | undefined {
+        return this.document?.exists ? cloneValue(this.document.data) : undefined;
     }
 }
 
 /**
  * Stub QuerySnapshot implementation
  */
-class StubQuerySnapshot implements IQuerySnapshot {
-    constructor(private readonly documents: StubDocumentSnapshot[]) {}
+class StubQuerySnapshot<T = any> implements IQuerySnapshot<T> {
+    constructor(
+        private readonly documents: StubDocumentSnapshot<T>[],
+        readonly readTime: Timestamp,
+        private readonly changes: IDocumentChange<T>[],
+    ) {}
 
-    get docs(): IDocumentSnapshot[] {
+    docChanges(): IDocumentChange<T>[] {
+        return [...this.changes];
+    }
+
+    get docs(): IDocumentSnapshot<T>[] {
         return this.documents;
     }
 
@@ -216,7 +1008,7 @@ class StubQuerySnapshot implements IQuerySnapshot {
         return this.documents.length;
     }
 
-    forEach(callback: (result: IDocumentSnapshot) => void): void {
+    forEach(callback: (result: IDocumentSnapshot<T>) => void): void {
         this.documents.forEach(callback);
     }
 }
@@ -224,34 +1016,35 @@ class StubQuerySnapshot implements IQuerySnapshot {
 /**
  * Stub AggregateQuerySnapshot implementation
  */
-class StubAggregateQuerySnapshot implements IAggregateQuerySnapshot {
-    constructor(private readonly countValue: number) {}
+class StubAggregateQuerySnapshot<TData> implements IAggregateQuerySnapshot<TData> {
+    constructor(private readonly dataValue: TData) {}
 
-    data(): { count: number; } {
-        return { count: this.countValue };
+    data(): TData {
+        return this.dataValue;
     }
 }
 
 /**
  * Stub AggregateQuery implementation
  */
-class StubAggregateQuery implements IAggregateQuery {
-    constructor(private readonly countFn: () => Promise<number>) {}
+class StubAggregateQuery<TData> implements IAggregateQuery<TData> {
+    constructor(private readonly aggregateFn: () => Promise<TData>) {}
 
-    async get(): Promise<IAggregateQuerySnapshot> {
-        const count = await this.countFn();
-        return new StubAggregateQuerySnapshot(count);
+    async get(): Promise<IAggregateQuerySnapshot<TData>> {
+        const data = await this.aggregateFn();
+        return new StubAggregateQuerySnapshot(data);
     }
 }
 
 /**
  * Stub DocumentReference implementation
  */
-class StubDocumentReference implements IDocumentReference {
+class StubDocumentReference<T = any> implements IDocumentReference<T> {
     constructor(
         private readonly storage: Map<string, StoredDocument>,
         private readonly documentPath: string,
         private readonly db: StubFirestoreDatabase,
+        readonly converter: FirestoreDataConverter<T> | null = null,
     ) {}
 
     get id(): string {
@@ -263,39 +1056,66 @@ class StubDocumentReference implements IDocumentReference {
         return this.documentPath;
     }
 
-    get parent(): ICollectionReference | null {
+    get parent(): ICollectionReference<T> | null {
         const parts = this.documentPath.split('/');
         if (parts.length <= 1) return null;
 
         const collectionPath = parts.slice(0, -1).join('/');
-        return new StubCollectionReference(this.storage, collectionPath, this.db);
+        return new StubCollectionReference(this.storage, collectionPath, this.db, this.converter);
     }
 
     collection(collectionPath: string): ICollectionReference {
-        const fullPath = `${this.documentPath}/${collectionPath}`;
+        const fullPath = resolveResourcePath('collectionPath', this.documentPath, collectionPath);
         return new StubCollectionReference(this.storage, fullPath, this.db);
     }
 
-    onSnapshot(onNext: (snapshot: IDocumentSnapshot) => void, onError?: (error: Error) => void): () => void {
+    async listCollections(): Promise<ICollectionReference[]> {
+        return listChildIds(this.storage, this.documentPath).map((collectionId) => this.collection(collectionId));
+    }
+
+    onSnapshot(onNext: (snapshot: IDocumentSnapshot<T>) => void, onError?: (error: Error) => void): () => void {
         const listener: DocumentWatcher = {
             callback: onNext,
             error: onError,
+            converter: this.converter,
         };
         return this.db.addDocumentWatcher(this.documentPath, listener);
     }
 
-    async get(): Promise<IDocumentSnapshot> {
+    async get(): Promise<IDocumentSnapshot<T>> {
+        this.db.assertNoFault('get', [this.documentPath]);
         const doc = this.storage.get(this.documentPath);
-        return new StubDocumentSnapshot(doc ?? null, this);
+        return new StubDocumentSnapshot(doc ?? null, this, this.db.getReadTime());
+    }
+
+    withConverter<U>(converter: FirestoreDataConverter<U>): StubDocumentReference<U>;
+    withConverter(converter: null): StubDocumentReference<DocumentData>;
+    withConverter<U>(converter: FirestoreDataConverter<U> | null): StubDocumentReference<U> {
+        return new StubDocumentReference<U>(this.storage, this.documentPath, this.db, converter);
+    }
+
+    /**
+     * Convert written data with toFirestore when the reference has a converter, passing the
+     * options through for merge writes like the SDK does
+     */
+    private toFirestoreData(data: T | Partial<T>, options?: SetOptions): DocumentData {
+        if (!this.converter) {
+            return data as DocumentData;
+        }
+        if (options && (options.merge || options.mergeFields)) {
+            return this.converter.toFirestore(data as Partial<T>, options);
+        }
+        return this.converter.toFirestore(data as T);
     }
 
     /**
      * Process FieldValue operations (increment, arrayUnion, etc.) by applying them to existing data
      * @param data - The data containing potential FieldValue sentinels
      * @param existingData - The existing document data to apply operations against
+     * @param commitTime - Time the write is committed at, which FieldValue.serverTimestamp() resolves to
      * @returns Processed data with FieldValue operations resolved
      */
-    private processFieldValues(data: any, existingData: any = {}): any {
+    private processFieldValues(data: any, existingData: any = {}, commitTime: Timestamp): any {
         if (!data || typeof data !== 'object') {
             return data;
         }
@@ -307,21 +1127,25 @@ class StubDocumentReference implements IDocumentReference {
 
             // Check if this is a FieldValue.serverTimestamp() sentinel
             if (value && typeof value === 'object' && value.constructor.name === 'ServerTimestampTransform') {
-                result[key] = Timestamp.now();
+                result[key] = commitTime;
             } // Check if this is a FieldValue.increment() sentinel
             else if (value && typeof value === 'object' && value.constructor.name === 'NumericIncrementTransform') {
                 // Extract the increment operand from the FieldValue.increment() sentinel
                 const incrementBy = (value as any).operand || 0;
                 const currentValue = existingData[key] || 0;
                 result[key] = currentValue + incrementBy;
-            } // Recursively process nested objects that might contain FieldValue operations
+            } // Check if this is a FieldValue.arrayUnion() / FieldValue.arrayRemove() sentinel
+            else if (value && typeof value === 'object' && value.constructor.name === 'ArrayUnionTransform') {
+                result[key] = applyArrayUnion(existingData[key], (value as any).elements);
+            } else if (value && typeof value === 'object' && value.constructor.name === 'ArrayRemoveTransform') {
+                result[key] = applyArrayRemove(existingData[key], (value as any).elements);
+            } // Recursively process nested maps that might contain FieldValue operations
             // Note: In Firestore, nested objects replace the entire field, so we process
             // FieldValues within them but don't merge with existing nested data
-            // Skip any FieldValue sentinels (constructor names ending with "Transform")
-            else if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Timestamp) && !(value instanceof Date) && !value.constructor.name.endsWith('Transform')) {
+            else if (isPlainObject(value)) {
                 // Process the nested object for FieldValues, but without merging with existing data
                 // because Firestore replaces the entire nested object in an update
-                result[key] = this.processFieldValuesInNestedObject(value, existingData[key]);
+                result[key] = this.processFieldValuesInNestedObject(value, existingData[key], commitTime);
             }
         }
 
@@ -334,7 +1158,7 @@ class StubDocumentReference implements IDocumentReference {
      * - We process increments against the existing nested structure
      * - But the entire nested object replaces what was there before
      */
-    private processFieldValuesInNestedObject(nestedData: any, existingNestedData: any = {}): any {
+    private processFieldValuesInNestedObject(nestedData: any, existingNestedData: any = {}, commitTime: Timestamp): any {
         if (!nestedData || typeof nestedData !== 'object') {
             return nestedData;
         }
@@ -346,16 +1170,20 @@ class StubDocumentReference implements IDocumentReference {
 
             // Check if this is a FieldValue.serverTimestamp() sentinel
             if (value && typeof value === 'object' && value.constructor.name === 'ServerTimestampTransform') {
-                result[key] = Timestamp.now();
+                result[key] = commitTime;
             } // Check if this is a FieldValue.increment() sentinel
             else if (value && typeof value === 'object' && value.constructor.name === 'NumericIncrementTransform') {
                 const incrementBy = (value as any).operand || 0;
                 const currentValue = existingNestedData?.[key] || 0;
                 result[key] = currentValue + incrementBy;
-            } // Recursively process deeper nesting, but skip FieldValue sentinels
-            else if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Timestamp) && !(value instanceof Date) && !value.constructor.name.endsWith('Transform')) {
+            } else if (value && typeof value === 'object' && value.constructor.name === 'ArrayUnionTransform') {
+                result[key] = applyArrayUnion(existingNestedData?.[key], (value as any).elements);
+            } else if (value && typeof value === 'object' && value.constructor.name === 'ArrayRemoveTransform') {
+                result[key] = applyArrayRemove(existingNestedData?.[key], (value as any).elements);
+            } // Recursively process deeper nesting
+            else if (isPlainObject(value)) {
                 // Recursively process deeper nesting
-                result[key] = this.processFieldValuesInNestedObject(value, existingNestedData?.[key]);
+                result[key] = this.processFieldValuesInNestedObject(value, existingNestedData?.[key], commitTime);
             }
         }
 
@@ -364,51 +1192,36 @@ class StubDocumentReference implements IDocumentReference {
 
     /**
      * Deep merge two objects, matching Firestore's merge behavior:
-     * - Recursively merges nested objects
+     * - Recursively merges nested maps
      * - Arrays replace rather than merge
      * - null overwrites existing values
-     * - Primitives replace existing values
-     * - FieldValue operations must be already processed before calling this
+     * - Primitives and other values (Timestamps, GeoPoints, references) replace existing values
+     * - FieldValue.delete() removes the field
+     * - Other FieldValue operations must be already processed before calling this
      *
      * @param existing - The existing data
      * @param updates - The new data to merge in (with FieldValue operations already processed)
      * @returns Deep merged result
      */
     private deepMerge(existing: any, updates: any): any {
-        // If updates is not an object or is null, it replaces existing entirely
-        if (!updates || typeof updates !== 'object' || Array.isArray(updates) || updates instanceof Timestamp || updates instanceof Date) {
+        // If updates is not a map, it replaces existing entirely
+        if (!isPlainObject(updates)) {
             return updates;
         }
 
-        // If existing is not an object, updates replaces it
-        if (!existing || typeof existing !== 'object' || Array.isArray(existing) || existing instanceof Timestamp || existing instanceof Date) {
-            return updates;
-        }
-
-        // Both are objects - deep merge them
-        const result: any = { ...existing };
+        // If existing is not a map, updates are merged into an empty one
+        const result: any = isPlainObject(existing) ? { ...existing } : {};
 
         for (const key in updates) {
             const updateValue = updates[key];
-            const existingValue = result[key];
-
-            // If update value is an object (not array, not Timestamp, not Date), deep merge
-            if (
-                updateValue
-                && typeof updateValue === 'object'
-                && !Array.isArray(updateValue)
-                && !(updateValue instanceof Timestamp)
-                && !(updateValue instanceof Date)
-                && existingValue
-                && typeof existingValue === 'object'
-                && !Array.isArray(existingValue)
-                && !(existingValue instanceof Timestamp)
-                && !(existingValue instanceof Date)
-            ) {
-                // Both are objects - recursively deep merge
-                result[key] = this.deepMerge(existingValue, updateValue);
+
+            if (isDeleteSentinel(updateValue)) {
+                delete result[key];
+            } else if (isPlainObject(updateValue)) {
+                // Nested map - recursively deep merge
+                result[key] = this.deepMerge(result[key], updateValue);
             } else {
-                // Primitive, array, Timestamp, Date, or null - replace
+                // Primitive, array, Timestamp, Date, GeoPoint, reference or null - replace
                 result[key] = updateValue;
             }
         }
@@ -416,61 +1229,121 @@ class StubDocumentReference implements IDocumentReference {
         return result;
     }
 
-    async set(data: any, options?: SetOptions): Promise<void> {
-        const existingDoc = this.storage.get(this.documentPath);
-        const beforeClone = cloneStoredDocument(existingDoc ?? null);
+    /**
+     * Convert and validate data for set() or create(). Batches, transactions and BulkWriter call this when a
+     * write is added, so invalid data throws straight away like it does in the SDK.
+     */
+    prepareSetData(modelData: T | Partial<T>, options?: SetOptions): DocumentData {
+        const data = this.toFirestoreData(modelData, options);
+        validateSetData(data, !!(options?.merge || options?.mergeFields), this.db.ignoreUndefinedProperties);
+        return this.db.ignoreUndefinedProperties ? removeUndefinedValues(data) : data;
+    }
+
+    /**
+     * Validate data for update(), see prepareSetData()
+     */
+    prepareUpdateData(data: any): any {
+        validateUpdateData(data, this.db.ignoreUndefinedProperties);
+        return this.db.ignoreUndefinedProperties ? removeUndefinedValues(data) : data;
+    }
+
+    async set(modelData: T | Partial<T>, options?: SetOptions): Promise<void> {
+        const data = this.prepareSetData(modelData, options);
+        this.db.assertNoFault('set', [this.documentPath]);
+        await this.db.commitWrites([{ ref: this, write: { type: 'set', data, options } }]);
+    }
+
+    /**
+     * Work out the document a write leaves behind, without storing anything: check the write's precondition,
+     * apply it and its field transforms to the document as it was, and check the result can be stored
+     * @param existingDoc - The document before the write, including earlier writes in the same commit
+     * @param commitTime - Time the write is committed at
+     * @returns The document to store, or undefined when the write deletes it
+     */
+    resolveWrite(write: DocumentWrite, existingDoc: StoredDocument | undefined, commitTime: Timestamp): StoredDocument | undefined {
+        const existing = existingDoc?.exists ? existingDoc : undefined;
+
+        let newData: any;
+        switch (write.type) {
+            case 'delete':
+                assertPrecondition(this.documentPath, existingDoc, write.precondition);
+                return undefined;
+            case 'create':
+                if (existing) {
+                    throw new FirestoreError('already-exists', `Document already exists: ${this.documentPath}`);
+                }
+                newData = this.resolveSetData(write.data, undefined, commitTime);
+                break;
+            case 'set':
+                newData = this.resolveSetData(write.data, existing, commitTime, write.options);
+                break;
+            case 'update': {
+                if (!existing) {
+                    throw new FirestoreError('not-found', `No document to update: ${this.documentPath}`);
+                }
+                assertPrecondition(this.documentPath, existing, write.precondition);
 
-        if (options?.merge && existingDoc) {
+                // Apply dot notation updates, then process FieldValue operations for non-dot-notation fields
+                const updatedData = this.applyDotNotationUpdates(existing.data, write.data, commitTime);
+                newData = this.processFieldValues(updatedData, existing.data, commitTime);
+                break;
+            }
+        }
+
+        assertStorableDocument(this.documentPath, newData);
+        // Like Firestore, a write that leaves the data unchanged keeps the previous update time
+        const unchanged = existing !== undefined && valuesEqual(existing.data, newData);
+        return {
+            id: this.id,
+            path: this.documentPath,
+            data: newData,
+            exists: true,
+            createTime: existing?.createTime ?? commitTime,
+            updateTime: unchanged ? existing.updateTime : commitTime,
+        };
+    }
+
+    /**
+     * Data a set() leaves in the document, merged into the existing data as the set options ask
+     */
+    private resolveSetData(data: DocumentData, existingDoc: StoredDocument | undefined, commitTime: Timestamp, options?: SetOptions): any {
+        if (options?.merge) {
             // Process FieldValue operations with existing data
-            const processedData = this.processFieldValues(data, existingDoc.data);
-            const mergedData = this.deepMerge(existingDoc.data, processedData);
-            this.storage.set(this.documentPath, {
-                id: this.id,
-                path: this.documentPath,
-                data: mergedData,
-                exists: true,
-            });
-        } else if (options?.mergeFields && existingDoc) {
-            const mergedData = { ...existingDoc.data };
+            const processedData = this.processFieldValues(data, existingDoc?.data, commitTime);
+            return this.deepMerge(existingDoc?.data, processedData);
+        }
+
+        if (options?.mergeFields && existingDoc) {
+            const newData = { ...existingDoc.data };
             for (const field of options.mergeFields) {
                 if (field in data) {
                     // Process FieldValue operations for this field
                     const fieldData = { [field]: data[field] };
-                    const processed = this.processFieldValues(fieldData, existingDoc.data);
-                    mergedData[field] = processed[field];
+                    const processed = this.processFieldValues(fieldData, existingDoc.data, commitTime);
+                    newData[field] = processed[field];
                 }
             }
-            this.storage.set(this.documentPath, {
-                id: this.id,
-                path: this.documentPath,
-                data: mergedData,
-                exists: true,
-            });
-        } else {
-            // No existing data, so just copy (FieldValue.increment would start from 0)
-            const processedData = this.processFieldValues(data, {});
-            this.storage.set(this.documentPath, {
-                id: this.id,
-                path: this.documentPath,
-                data: { ...processedData },
-                exists: true,
-            });
+            return newData;
         }
 
-        const storedDoc = this.storage.get(this.documentPath);
-        const afterClone = cloneStoredDocument(storedDoc ?? null);
-        const eventType: FirestoreTriggerEventType = beforeClone?.exists ? 'update' : 'create';
-        await this.db.recordTrigger(eventType, this.documentPath, beforeClone, afterClone);
-        this.db.emitDocumentChange(this.documentPath);
+        // No existing data, so just copy (FieldValue.increment would start from 0)
+        return { ...this.processFieldValues(data, {}, commitTime) };
+    }
+
+    async create(modelData: T): Promise<void> {
+        const data = this.prepareSetData(modelData);
+        this.db.assertNoFault('create', [this.documentPath]);
+        await this.db.commitWrites([{ ref: this, write: { type: 'create', data } }]);
     }
 
     /**
      * Apply updates with dot notation support (e.g., 'stats.views')
      * @param existingData - The existing document data
      * @param updates - The updates to apply (may contain dot notation keys)
+     * @param commitTime - Time the write is committed at, which FieldValue.serverTimestamp() resolves to
      * @returns Updated data
      */
-    private applyDotNotationUpdates(existingData: any, updates: any): any {
+    private applyDotNotationUpdates(existingData: any, updates: any, commitTime: Timestamp): any {
         const result = { ...existingData };
 
         for (const [key, value] of Object.entries(updates)) {
@@ -514,11 +1387,15 @@ class StubDocumentReference implements IDocumentReference {
                 // Apply the value at the target field
                 const lastPart = parts[parts.length - 1];
                 if (value && typeof value === 'object' && value.constructor.name === 'ServerTimestampTransform') {
-                    current[lastPart] = Timestamp.now();
+                    current[lastPart] = commitTime;
                 } else if (value && typeof value === 'object' && value.constructor.name === 'NumericIncrementTransform') {
                     const incrementBy = (value as any).operand || 0;
                     const currentValue = current[lastPart] || 0;
                     current[lastPart] = currentValue + incrementBy;
+                } else if (value && typeof value === 'object' && value.constructor.name === 'ArrayUnionTransform') {
+                    current[lastPart] = applyArrayUnion(current[lastPart], (value as any).elements);
+                } else if (value && typeof value === 'object' && value.constructor.name === 'ArrayRemoveTransform') {
+                    current[lastPart] = applyArrayRemove(current[lastPart], (value as any).elements);
                 } else if (isDeleteOperation) {
                     // Delete the field
                     delete current[lastPart];
@@ -537,59 +1414,169 @@ class StubDocumentReference implements IDocumentReference {
             }
         }
 
-        return result;
+        return result;
+    }
+
+    async update(data: any, precondition?: Precondition): Promise<void> {
+        const updateData = this.prepareUpdateData(data);
+        validatePrecondition(precondition, [true]);
+        this.db.assertNoFault('update', [this.documentPath]);
+        await this.db.commitWrites([{ ref: this, write: { type: 'update', data: updateData, precondition } }]);
+    }
+
+    async delete(precondition?: Precondition): Promise<void> {
+        validatePrecondition(precondition);
+        this.db.assertNoFault('delete', [this.documentPath]);
+        await this.db.commitWrites([{ ref: this, write: { type: 'delete', precondition } }]);
+    }
+}
+
+/**
+ * Query filter condition
+ */
+interface QueryFilter {
+    field: string;
+    operator: WhereFilterOp;
+    value: any;
+}
+
+/**
+ * Composite query filter (Filter.and / Filter.or), nested arbitrarily
+ */
+interface CompositeQueryFilter {
+    operator: 'AND' | 'OR';
+    filters: QueryFilterNode[];
+}
+
+type QueryFilterNode = QueryFilter | CompositeQueryFilter;
+
+const INEQUALITY_OPERATORS = new Set<WhereFilterOp>(['<', '<=', '>', '>=', '!=', 'not-in']);
+
+/**
+ * Operators that Firestore refuses to combine in a single query
+ */
+const CONFLICTING_OPERATORS: Partial<Record<WhereFilterOp, WhereFilterOp[]>> = {
+    '!=': ['not-in'],
+    'array-contains': ['array-contains', 'array-contains-any'],
+    'array-contains-any': ['array-contains', 'array-contains-any', 'not-in'],
+    'in': ['not-in'],
+    'not-in': ['array-contains-any', 'in', 'not-in', '!='],
+};
+
+/**
+ * Maximum number of comparison values for disjunctive operators
+ */
+const MAX_DISJUNCTIVE_VALUES: Partial<Record<WhereFilterOp, number>> = {
+    'in': 30,
+    'array-contains-any': 30,
+    'not-in': 10,
+};
+
+function flattenFieldFilters(nodes: QueryFilterNode[]): QueryFilter[] {
+    return nodes.flatMap((node) => isCompositeQueryFilter(node) ? flattenFieldFilters(node.filters) : [node]);
+}
+
+/**
+ * Error for a query Firestore can't run. The SDK reports these without a status prefix, so the message is kept as is.
+ */
+function invalidQueryError(message: string): FirestoreError {
+    return new FirestoreError('invalid-argument', message, message);
+}
+
+/**
+ * Validate a single field filter the way the SDK and backend do before running a query
+ */
+function validateFieldFilter(filter: QueryFilter): void {
+    const { field, operator, value } = filter;
+
+    if (typeof value === 'number' && Number.isNaN(value) && operator !== '==' && operator !== '!=') {
+        throw invalidQueryError("Invalid query. You can only perform '==' and '!=' comparisons on NaN.");
+    }
+    if (value === null && operator !== '==' && operator !== '!=') {
+        throw invalidQueryError("Invalid query. You can only perform '==' and '!=' comparisons on Null.");
+    }
+    if (field === '__name__' && (operator === 'array-contains' || operator === 'array-contains-any')) {
+        throw invalidQueryError(`Invalid Query. You can't perform '${operator}' queries on FieldPath.documentId().`);
     }
 
-    async update(data: any): Promise<void> {
-        const existingDoc = this.storage.get(this.documentPath);
-        if (!existingDoc || !existingDoc.exists) {
-            throw new Error(`Document ${this.documentPath} does not exist`);
+    const maxValues = MAX_DISJUNCTIVE_VALUES[operator];
+    if (maxValues !== undefined) {
+        if (!Array.isArray(value) || value.length === 0) {
+            throw invalidQueryError(`Invalid Query. A non-empty array is required for '${operator}' filters.`);
         }
+        if (value.length > maxValues) {
+            throw invalidQueryError(`Invalid Query. '${operator}' filters support a maximum of ${maxValues} elements in the value array.`);
+        }
+    }
+}
 
-        const beforeClone = cloneStoredDocument(existingDoc);
-
-        // Apply dot notation updates and process FieldValue operations
-        const updatedData = this.applyDotNotationUpdates(existingDoc.data, data);
-
-        // For non-dot-notation fields, process FieldValue operations
-        const processedData = this.processFieldValues(updatedData, existingDoc.data);
+function validateLimit(limit: number): void {
+    if (!Number.isInteger(limit)) {
+        throw invalidQueryError(`Value for argument "limit" is not a valid integer.`);
+    }
+    if (limit <= 0) {
+        throw invalidQueryError(`Invalid Query. Query limit (${limit}) is invalid. Limit must be positive.`);
+    }
+}
 
-        this.storage.set(this.documentPath, {
-            id: this.id,
-            path: this.documentPath,
-            data: processedData,
-            exists: true,
-        });
+/**
+ * Expand a filter tree into disjunctive normal form: an OR of AND-ed field filters
+ */
+function toDisjunctiveNormalForm(nodes: QueryFilterNode[]): QueryFilter[][] {
+    let branches: QueryFilter[][] = [[]];
+
+    for (const node of nodes) {
+        let nodeBranches: QueryFilter[][];
+        if (!isCompositeQueryFilter(node)) {
+            nodeBranches = [[node]];
+        } else if (node.operator === 'OR') {
+            nodeBranches = node.filters.flatMap((child) => toDisjunctiveNormalForm([child]));
+        } else {
+            nodeBranches = toDisjunctiveNormalForm(node.filters);
+        }
 
-        const storedDoc = this.storage.get(this.documentPath);
-        const afterClone = cloneStoredDocument(storedDoc ?? null);
-        await this.db.recordTrigger('update', this.documentPath, beforeClone, afterClone);
-        this.db.emitDocumentChange(this.documentPath);
+        branches = branches.flatMap((branch) => nodeBranches.map((nodeBranch) => [...branch, ...nodeBranch]));
     }
 
-    async delete(): Promise<void> {
-        const existingDoc = this.storage.get(this.documentPath);
-        if (!existingDoc || !existingDoc.exists) {
-            this.storage.delete(this.documentPath);
-            return;
-        }
+    return branches;
+}
 
-        const beforeClone = cloneStoredDocument(existingDoc);
+function isCompositeQueryFilter(node: QueryFilterNode): node is CompositeQueryFilter {
+    return 'filters' in node;
+}
 
-        this.storage.delete(this.documentPath);
+/**
+ * Resolve a string or FieldPath into the dotted field name used for lookups
+ */
+function normalizeFieldPath(fieldPath: string | any): string {
+    if (typeof fieldPath === 'string') {
+        return fieldPath;
+    }
 
-        await this.db.recordTrigger('delete', this.documentPath, beforeClone, null);
-        this.db.emitDocumentChange(this.documentPath);
+    // FieldPath.documentId() is represented as a special marker
+    if (fieldPath.toString?.() === '__name__' || fieldPath._segments?.[0] === '__name__' || fieldPath.segments?.[0] === '__name__') {
+        return '__name__';
     }
+
+    return fieldPath.toString?.() || String(fieldPath);
 }
 
 /**
- * Query filter condition
+ * Convert a firebase-admin Filter (UnaryFilter or CompositeFilter) into a filter tree node
  */
-interface QueryFilter {
-    field: string;
-    operator: WhereFilterOp;
-    value: any;
+function toQueryFilterNode(filter: any): QueryFilterNode {
+    if (filter.constructor.name === 'CompositeFilter') {
+        return {
+            operator: filter.operator,
+            filters: (filter.filters as any[]).map((child) => toQueryFilterNode(child)),
+        };
+    }
+
+    if (filter.constructor.name === 'UnaryFilter') {
+        return { field: normalizeFieldPath(filter.field), operator: filter.operator, value: filter.value };
+    }
+
+    throw new Error(`Unsupported filter type: ${filter.constructor.name}`);
 }
 
 /**
@@ -600,64 +1587,127 @@ interface QueryOrder {
     direction: OrderByDirection;
 }
 
+/**
+ * Query cursor position (startAt/startAfter/endAt/endBefore)
+ */
+interface QueryCursor {
+    values: any[];
+    inclusive: boolean;
+}
+
+function isDocumentSnapshotValue(value: any): value is IDocumentSnapshot {
+    return !!value && typeof value === 'object' && 'ref' in value && typeof value.data === 'function';
+}
+
+/**
+ * Read a dotted field path (e.g. 'stats.views') from document data
+ */
+function getNestedValue(data: any, field: string): any {
+    let value = data;
+    for (const part of field.split('.')) {
+        value = value?.[part];
+    }
+    return value;
+}
+
 /**
  * Stub Query implementation
  */
-class StubQuery implements IQuery {
-    protected filters: QueryFilter[] = [];
+class StubQuery<T = any> implements IQuery<T> {
+    protected filters: QueryFilterNode[] = [];
     protected orders: QueryOrder[] = [];
     protected limitCount?: number;
+    protected limitType: 'first' | 'last' = 'first';
     protected offsetCount: number = 0;
-    protected startAfterValues?: any[];
+    protected startCursor?: QueryCursor;
+    protected endCursor?: QueryCursor;
     protected selectedFields?: string[];
+    protected isCollectionGroup = false;
 
     constructor(
         protected readonly storage: Map<string, StoredDocument>,
         protected readonly collectionPath: string,
         protected readonly db: StubFirestoreDatabase,
+        protected readonly converter: FirestoreDataConverter<T> | null = null,
     ) {}
 
-    where(fieldPath: string | any, opStr?: WhereFilterOp | any, value?: any): IQuery {
+    where(fieldPath: string | any, opStr?: WhereFilterOp | any, value?: any): IQuery<T> {
+        if (this.startCursor || this.endCursor) {
+            throw invalidQueryError('Cannot specify a where() filter after calling startAt(), startAfter(), endBefore() or endAt().');
+        }
+
         const newQuery = this.clone();
 
         if (typeof fieldPath === 'string' && opStr !== undefined && value !== undefined) {
             newQuery.filters.push({ field: fieldPath, operator: opStr, value });
         } else if (typeof fieldPath === 'object' && fieldPath !== null) {
-            // Handle FieldPath objects (e.g., FieldPath.documentId())
-            // FieldPath.documentId() is represented as a special marker
-            const fieldPathStr = fieldPath.toString?.() === '__name__' || fieldPath._segments?.[0] === '__name__'
-                ? '__name__' // Document ID field
-                : fieldPath.toString?.() || String(fieldPath);
-
-            if (opStr !== undefined && value !== undefined) {
-                newQuery.filters.push({ field: fieldPathStr, operator: opStr, value });
+            if (opStr === undefined && (fieldPath.constructor.name === 'UnaryFilter' || fieldPath.constructor.name === 'CompositeFilter')) {
+                // Handle Filter objects (Filter.where / Filter.and / Filter.or)
+                newQuery.filters.push(toQueryFilterNode(fieldPath));
+            } else if (opStr !== undefined && value !== undefined) {
+                // Handle FieldPath objects (e.g., FieldPath.documentId())
+                newQuery.filters.push({ field: normalizeFieldPath(fieldPath), operator: opStr, value });
             }
         }
 
+        newQuery.validateQuery();
         return newQuery;
     }
 
-    orderBy(fieldPath: string, directionStr: OrderByDirection = 'asc'): IQuery {
+    orderBy(fieldPath: string, directionStr: OrderByDirection = 'asc'): IQuery<T> {
+        if (this.startCursor || this.endCursor) {
+            throw invalidQueryError('Cannot specify an orderBy() constraint after calling startAt(), startAfter(), endBefore() or endAt().');
+        }
+
         const newQuery = this.clone();
         newQuery.orders.push({ field: fieldPath, direction: directionStr });
+        newQuery.validateQuery();
+        return newQuery;
+    }
+
+    limit(limit: number): IQuery<T> {
+        validateLimit(limit);
+        const newQuery = this.clone();
+        newQuery.limitCount = limit;
+        newQuery.limitType = 'first';
         return newQuery;
     }
 
-    limit(limit: number): IQuery {
+    limitToLast(limit: number): IQuery<T> {
+        validateLimit(limit);
         const newQuery = this.clone();
         newQuery.limitCount = limit;
+        newQuery.limitType = 'last';
         return newQuery;
     }
 
-    offset(offset: number): IQuery {
+    offset(offset: number): IQuery<T> {
         const newQuery = this.clone();
         newQuery.offsetCount = offset;
         return newQuery;
     }
 
-    startAfter(...fieldValues: any[]): IQuery {
+    startAt(...fieldValues: any[]): IQuery<T> {
+        const newQuery = this.clone();
+        newQuery.startCursor = this.createCursor(fieldValues, true);
+        return newQuery;
+    }
+
+    startAfter(...fieldValues: any[]): IQuery<T> {
         const newQuery = this.clone();
-        newQuery.startAfterValues = fieldValues;
+        newQuery.startCursor = this.createCursor(fieldValues, false);
+        return newQuery;
+    }
+
+    endAt(...fieldValues: any[]): IQuery<T> {
+        const newQuery = this.clone();
+        newQuery.endCursor = this.createCursor(fieldValues, true);
+        return newQuery;
+    }
+
+    endBefore(...fieldValues: any[]): IQuery<T> {
+        const newQuery = this.clone();
+        newQuery.endCursor = this.createCursor(fieldValues, false);
         return newQuery;
     }
 
@@ -667,9 +1717,10 @@ class StubQuery implements IQuery {
         return newQuery;
     }
 
-    onSnapshot(onNext: (snapshot: IQuerySnapshot) => void, onError?: (error: Error) => void): () => void {
+    onSnapshot(onNext: (snapshot: IQuerySnapshot<T>) => void, onError?: (error: Error) => void): () => void {
         const watcher: QueryWatcher = {
             query: this.clone(),
+            path: this.collectionPath,
             callback: onNext,
             error: onError,
         };
@@ -678,40 +1729,127 @@ class StubQuery implements IQuery {
 
     count(): IAggregateQuery {
         return new StubAggregateQuery(async () => {
-            let documents: StoredDocument[] = [];
+            this.db.assertNoFault('query', [this.collectionPath]);
+            return { count: this.execute().length };
+        });
+    }
+
+    aggregate<T extends AggregateSpec>(aggregateSpec: T): IAggregateQuery<AggregateSpecData<T>> {
+        return new StubAggregateQuery(async () => {
+            this.db.assertNoFault('query', [this.collectionPath]);
+            const documents = this.execute();
+            const result: Record<string, number | null> = {};
+
+            for (const [alias, aggregateField] of Object.entries(aggregateSpec)) {
+                if (aggregateField.aggregateType === 'count') {
+                    result[alias] = documents.length;
+                    continue;
+                }
+
+                // sum and average ignore documents where the field is missing or not a number
+                const field = normalizeFieldPath((aggregateField as any)._field);
+                const values = documents
+                    .map((doc) => this.getFieldValue(doc, field))
+                    .filter((value): value is number => typeof value === 'number');
+                const sum = values.reduce((total, value) => total + value, 0);
 
-            for (const [path, doc] of this.storage.entries()) {
-                if (this.isInCollection(path) && doc.exists) {
-                    documents.push(doc);
+                if (aggregateField.aggregateType === 'sum') {
+                    result[alias] = sum;
+                } else {
+                    result[alias] = values.length > 0 ? sum / values.length : null;
                 }
             }
 
-            documents = documents.filter((doc) => this.matchesFilters(doc));
+            return result as AggregateSpecData<T>;
+        });
+    }
+
+    async get(): Promise<IQuerySnapshot<T>> {
+        this.db.assertNoFault('query', [this.collectionPath]);
+        return this.getSnapshotSince([]).snapshot;
+    }
+
+    withConverter<U>(converter: FirestoreDataConverter<U>): IQuery<U>;
+    withConverter(converter: null): IQuery<DocumentData>;
+    withConverter<U>(converter: FirestoreDataConverter<U> | null): IQuery<U> {
+        return this.copyQueryStateTo(new StubQuery<U>(this.storage, this.collectionPath, this.db, converter));
+    }
+
+    /**
+     * Execute the query, describing the results as changes since a previous set of results
+     * @param previousDocuments - Results of the previous execution (empty for a one-off read)
+     * @returns Snapshot and the raw results to diff the next execution against
+     */
+    getSnapshotSince(previousDocuments: StoredDocument[]): { snapshot: StubQuerySnapshot<T>; documents: StoredDocument[]; } {
+        const readTime = this.db.getReadTime();
+        const documents = this.execute();
+        const toSnapshot = (doc: StoredDocument) => new StubDocumentSnapshot(doc, new StubDocumentReference(this.storage, doc.path, this.db, this.converter), readTime);
+
+        const changes = this.computeDocumentChanges(previousDocuments, documents).map((change) => ({
+            type: change.type,
+            doc: toSnapshot(change.doc),
+            oldIndex: change.oldIndex,
+            newIndex: change.newIndex,
+        }));
+
+        return { snapshot: new StubQuerySnapshot(documents.map(toSnapshot), readTime, changes), documents };
+    }
 
-            if (this.orders.length > 0) {
-                documents.sort((a, b) => this.compareDocuments(a, b));
+    /**
+     * Diff two result sets the way the SDK's watch stream does: removals first, then additions,
+     * then modifications, each applied in query order to a working list so that every oldIndex and
+     * newIndex is relative to the list as it stands when that change is applied.
+     */
+    protected computeDocumentChanges(
+        previousDocuments: StoredDocument[],
+        documents: StoredDocument[],
+    ): Array<{ type: IDocumentChange['type']; doc: StoredDocument; oldIndex: number; newIndex: number; }> {
+        const previousByPath = new Map(previousDocuments.map((doc) => [doc.path, doc]));
+        const currentPaths = new Set(documents.map((doc) => doc.path));
+        const working = [...previousDocuments];
+        const changes: Array<{ type: IDocumentChange['type']; doc: StoredDocument; oldIndex: number; newIndex: number; }> = [];
+
+        const insert = (doc: StoredDocument): number => {
+            let index = working.findIndex((existing) => this.compareDocuments(doc, existing) < 0);
+            if (index === -1) {
+                index = working.length;
             }
+            working.splice(index, 0, doc);
+            return index;
+        };
 
-            if (this.startAfterValues && this.startAfterValues.length > 0) {
-                const startAfterIndex = this.findStartAfterIndex(documents);
-                if (startAfterIndex >= 0) {
-                    documents = documents.slice(startAfterIndex + 1);
-                }
+        for (const doc of previousDocuments) {
+            if (!currentPaths.has(doc.path)) {
+                const oldIndex = working.findIndex((existing) => existing.path === doc.path);
+                working.splice(oldIndex, 1);
+                changes.push({ type: 'removed', doc, oldIndex, newIndex: -1 });
             }
+        }
 
-            if (this.offsetCount > 0) {
-                documents = documents.slice(this.offsetCount);
+        for (const doc of documents) {
+            if (!previousByPath.has(doc.path)) {
+                changes.push({ type: 'added', doc, oldIndex: -1, newIndex: insert(doc) });
             }
+        }
 
-            if (this.limitCount !== undefined) {
-                documents = documents.slice(0, this.limitCount);
+        for (const doc of documents) {
+            const previous = previousByPath.get(doc.path);
+            if (previous && !valuesEqual(previous.data, doc.data)) {
+                const oldIndex = working.findIndex((existing) => existing.path === doc.path);
+                working.splice(oldIndex, 1);
+                changes.push({ type: 'modified', doc, oldIndex, newIndex: insert(doc) });
             }
+        }
 
-            return documents.length;
-        });
+        return changes;
     }
 
-    async get(): Promise<IQuerySnapshot> {
+    /**
+     * Run the query against storage: collection scope, filters, ordering, cursors, offset and limit
+     */
+    protected execute(): StoredDocument[] {
+        this.assertIndexed();
+
         let documents: StoredDocument[] = [];
 
         for (const [path, doc] of this.storage.entries()) {
@@ -720,17 +1858,33 @@ class StubQuery implements IQuery {
             }
         }
 
-        documents = documents.filter((doc) => this.matchesFilters(doc));
+        // Documents missing an explicitly ordered field are excluded, as in Firestore
+        documents = documents.filter((doc) => this.matchesFilters(doc) && this.orders.every((order) => order.field === '__name__' || this.getFieldValue(doc, order.field) !== undefined));
+        documents.sort((a, b) => this.compareDocuments(a, b));
+
+        if (this.startCursor) {
+            const cursor = this.startCursor;
+            documents = documents.filter((doc) => {
+                const comparison = this.compareToCursor(doc, cursor);
+                return cursor.inclusive ? comparison >= 0 : comparison > 0;
+            });
+        }
 
-        if (this.orders.length > 0) {
-            documents.sort((a, b) => this.compareDocuments(a, b));
+        if (this.endCursor) {
+            const cursor = this.endCursor;
+            documents = documents.filter((doc) => {
+                const comparison = this.compareToCursor(doc, cursor);
+                return cursor.inclusive ? comparison <= 0 : comparison < 0;
+            });
         }
 
-        if (this.startAfterValues && this.startAfterValues.length > 0) {
-            const startAfterIndex = this.findStartAfterIndex(documents);
-            if (startAfterIndex >= 0) {
-                documents = documents.slice(startAfterIndex + 1);
+        if (this.limitType === 'last') {
+            if (this.orders.length === 0) {
+                throw invalidQueryError('limitToLast() queries require specifying at least one orderBy() clause.');
             }
+
+            // limitToLast takes the final documents of the ordered results
+            documents.reverse();
         }
 
         if (this.offsetCount > 0) {
@@ -741,32 +1895,70 @@ class StubQuery implements IQuery {
             documents = documents.slice(0, this.limitCount);
         }
 
-        const snapshots = documents.map((doc) => {
-            const docRef = new StubDocumentReference(this.storage, doc.path, this.db);
-            return new StubDocumentSnapshot(doc, docRef);
-        });
+        if (this.limitType === 'last') {
+            documents.reverse();
+        }
+
+        return documents;
+    }
+
+    protected clone(): StubQuery<T> {
+        return this.copyQueryStateTo(new StubQuery(this.storage, this.collectionPath, this.db, this.converter));
+    }
+
+    markAsCollectionGroup(): void {
+        this.isCollectionGroup = true;
+    }
 
-        return new StubQuerySnapshot(snapshots);
+    protected copyQueryStateTo<TQuery extends StubQuery<any>>(target: TQuery): TQuery {
+        target.filters = [...this.filters];
+        target.orders = [...this.orders];
+        target.limitCount = this.limitCount;
+        target.limitType = this.limitType;
+        target.offsetCount = this.offsetCount;
+        target.startCursor = this.startCursor;
+        target.endCursor = this.endCursor;
+        target.selectedFields = this.selectedFields ? [...this.selectedFields] : undefined;
+        target.isCollectionGroup = this.isCollectionGroup;
+        return target;
     }
 
-    protected clone(): StubQuery {
-        const cloned = new StubQuery(this.storage, this.collectionPath, this.db);
-        cloned.filters = [...this.filters];
-        cloned.orders = [...this.orders];
-        cloned.limitCount = this.limitCount;
-        cloned.offsetCount = this.offsetCount;
-        cloned.startAfterValues = this.startAfterValues ? [...this.startAfterValues] : undefined;
-        cloned.selectedFields = this.selectedFields ? [...this.selectedFields] : undefined;
-        return cloned;
+    /**
+     * Check every disjunction of the query against the database's index definitions (no-op unless enforcement is enabled)
+     */
+    protected assertIndexed(): void {
+        const collectionParts = this.collectionPath.split('/');
+        const collectionGroup = collectionParts[collectionParts.length - 1];
+
+        for (const branch of toDisjunctiveNormalForm(this.filters)) {
+            const fields = branch.filter((filter) => filter.field !== '__name__');
+            const orders = [...this.orders];
+            const inequalityFields = unique(fields.filter((filter) => INEQUALITY_OPERATORS.has(filter.operator)).map((filter) => filter.field))
+                .filter((field) => !orders.some((order) => order.field === field))
+                .sort(compareStrings);
+            for (const field of inequalityFields) {
+                orders.push({ field, direction: orders.length > 0 ? orders[orders.length - 1].direction : 'asc' });
+            }
+
+            const requirement: QueryIndexRequirement = {
+                collectionGroup,
+                queryScope: this.isCollectionGroup ? 'COLLECTION_GROUP' : 'COLLECTION',
+                equalityFields: fields.filter((filter) => filter.operator === '==' || filter.operator === 'in').map((filter) => filter.field),
+                arrayFields: fields.filter((filter) => filter.operator === 'array-contains' || filter.operator === 'array-contains-any').map((filter) => filter.field),
+                orderFields: orders
+                    .filter((order) => order.field !== '__name__')
+                    .map((order) => ({ fieldPath: order.field, order: order.direction === 'asc' ? 'ASCENDING' : 'DESCENDING' })),
+            };
+            this.db.assertQueryIndexed(requirement);
+        }
     }
 
-    protected isInCollection(docPath: string): boolean {
+    isInCollection(docPath: string): boolean {
         const pathParts = docPath.split('/');
         const collectionParts = this.collectionPath.split('/');
 
-        // For collection group queries (single segment like 'shareLinks'),
-        // check if the document's parent collection matches
-        if (collectionParts.length === 1) {
+        // For collection group queries, check if the document's parent collection matches
+        if (this.isCollectionGroup) {
             // Document path must have at least 2 segments (collection/doc)
             if (pathParts.length < 2) {
                 return false;
@@ -791,10 +1983,18 @@ class StubQuery implements IQuery {
     }
 
     protected matchesFilters(doc: StoredDocument): boolean {
-        return this.filters.every((filter) => {
-            const fieldValue = this.getFieldValue(doc, filter.field);
-            return this.matchesFilter(fieldValue, filter.operator, filter.value);
-        });
+        return this.filters.every((filter) => this.matchesFilterNode(doc, filter));
+    }
+
+    protected matchesFilterNode(doc: StoredDocument, node: QueryFilterNode): boolean {
+        if (isCompositeQueryFilter(node)) {
+            return node.operator === 'OR'
+                ? node.filters.some((child) => this.matchesFilterNode(doc, child))
+                : node.filters.every((child) => this.matchesFilterNode(doc, child));
+        }
+
+        const fieldValue = this.getFieldValue(doc, node.field);
+        return this.matchesFilter(fieldValue, node.operator, node.value);
     }
 
     protected getFieldValue(doc: StoredDocument | any, field: string): any {
@@ -809,49 +2009,147 @@ class StubQuery implements IQuery {
 
         // For regular fields, access doc.data
         const data = doc && typeof doc === 'object' && 'data' in doc ? doc.data : doc;
-        const parts = field.split('.');
-        let value = data;
-        for (const part of parts) {
-            value = value?.[part];
-        }
-        return value;
+        return getNestedValue(data, field);
     }
 
     protected matchesFilter(fieldValue: any, operator: WhereFilterOp, filterValue: any): boolean {
+        // Documents that don't contain the field never match a filter on it
+        if (fieldValue === undefined) {
+            return false;
+        }
+
         switch (operator) {
             case '==':
-                return fieldValue === filterValue;
+                return valuesEqual(fieldValue, filterValue);
             case '!=':
-                return fieldValue !== filterValue;
+                return fieldValue !== null && !valuesEqual(fieldValue, filterValue);
             case '<':
-                return fieldValue < filterValue;
+                return this.isSameValueType(fieldValue, filterValue) && compareValues(fieldValue, filterValue) < 0;
             case '<=':
-                return fieldValue <= filterValue;
+                return this.isSameValueType(fieldValue, filterValue) && compareValues(fieldValue, filterValue) <= 0;
             case '>':
-                return fieldValue > filterValue;
+                return this.isSameValueType(fieldValue, filterValue) && compareValues(fieldValue, filterValue) > 0;
             case '>=':
-                return fieldValue >= filterValue;
+                return this.isSameValueType(fieldValue, filterValue) && compareValues(fieldValue, filterValue) >= 0;
             case 'array-contains':
-                return Array.isArray(fieldValue) && fieldValue.includes(filterValue);
+                return Array.isArray(fieldValue) && fieldValue.some((element) => valuesEqual(element, filterValue));
             case 'in':
-                return Array.isArray(filterValue) && filterValue.includes(fieldValue);
+                return Array.isArray(filterValue) && filterValue.some((candidate) => valuesEqual(fieldValue, candidate));
             case 'array-contains-any':
-                return Array.isArray(fieldValue) && Array.isArray(filterValue) && fieldValue.some((v) => filterValue.includes(v));
+                return Array.isArray(fieldValue) && Array.isArray(filterValue) && fieldValue.some((element) => filterValue.some((candidate) => valuesEqual(element, candidate)));
             case 'not-in':
-                return Array.isArray(filterValue) && !filterValue.includes(fieldValue);
+                return Array.isArray(filterValue) && fieldValue !== null && !filterValue.some((candidate) => valuesEqual(fieldValue, candidate));
             default:
                 return false;
         }
     }
 
+    /**
+     * Range filters only match values of the same type (e.g. numbers never match a string bound)
+     */
+    protected isSameValueType(fieldValue: any, filterValue: any): boolean {
+        return getValueTypeOrder(fieldValue) === getValueTypeOrder(filterValue);
+    }
+
+    /**
+     * Explicit orderBy clauses, followed by implicit ordering on inequality fields and finally the document name,
+     * matching the ordering Firestore applies to every query
+     */
+    protected getEffectiveOrders(): QueryOrder[] {
+        const orders = [...this.orders];
+
+        const inequalityFields = new Set<string>();
+        this.collectInequalityFields(this.filters, inequalityFields);
+        const implicitFields = Array.from(inequalityFields)
+            .filter((field) => !orders.some((order) => order.field === field))
+            .sort(compareStrings);
+        const implicitDirection: OrderByDirection = orders.length > 0 ? orders[orders.length - 1].direction : 'asc';
+        for (const field of implicitFields) {
+            orders.push({ field, direction: implicitDirection });
+        }
+
+        if (!orders.some((order) => order.field === '__name__')) {
+            orders.push({ field: '__name__', direction: orders.length > 0 ? orders[orders.length - 1].direction : 'asc' });
+        }
+
+        return orders;
+    }
+
+    private collectInequalityFields(nodes: QueryFilterNode[], fields: Set<string>): void {
+        for (const filter of flattenFieldFilters(nodes)) {
+            if (INEQUALITY_OPERATORS.has(filter.operator)) {
+                fields.add(filter.field);
+            }
+        }
+    }
+
+    /**
+     * Reject filter and ordering combinations that Firestore refuses to execute
+     */
+    protected validateQuery(): void {
+        for (const filter of flattenFieldFilters(this.filters)) {
+            validateFieldFilter(filter);
+        }
+
+        // Operator conflicts apply within each AND-ed branch, so an OR may repeat an operator across branches
+        for (const branch of toDisjunctiveNormalForm(this.filters)) {
+            for (const [index, filter] of branch.entries()) {
+                const conflicts = CONFLICTING_OPERATORS[filter.operator] ?? [];
+                const conflicting = branch.slice(0, index).find((other) => conflicts.includes(other.operator));
+                if (conflicting) {
+                    throw invalidQueryError(
+                        conflicting.operator === filter.operator
+                            ? `Invalid query. You cannot use more than one '${filter.operator}' filter.`
+                            : `Invalid query. You cannot use '${filter.operator}' filters with '${conflicting.operator}' filters.`,
+                    );
+                }
+            }
+        }
+    }
+
     protected compareDocuments(a: StoredDocument, b: StoredDocument): number {
-        for (const order of this.orders) {
-            const aValue = this.getFieldValue(a, order.field);
-            const bValue = this.getFieldValue(b, order.field);
+        for (const order of this.getEffectiveOrders()) {
+            const comparison = order.field === '__name__'
+                ? compareReferencePaths(a.path, b.path)
+                : compareValues(this.getFieldValue(a, order.field), this.getFieldValue(b, order.field));
+
+            if (comparison !== 0) {
+                return order.direction === 'asc' ? comparison : -comparison;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Build a cursor from either a document snapshot or field values matching the orderBy clauses
+     */
+    protected createCursor(fieldValues: any[], inclusive: boolean): QueryCursor {
+        if (fieldValues.length === 1 && isDocumentSnapshotValue(fieldValues[0])) {
+            // A snapshot cursor positions on every ordered field plus the document name
+            const snapshot: IDocumentSnapshot = fieldValues[0];
+            const data = snapshot instanceof StubDocumentSnapshot || snapshot instanceof StaticDocumentSnapshot ? snapshot.storedData() : snapshot.data();
+            const values = this.getEffectiveOrders().map((order) => order.field === '__name__' ? snapshot.ref.path : getNestedValue(data, order.field));
+            return { values, inclusive };
+        }
 
-            let comparison = 0;
-            if (aValue < bValue) comparison = -1;
-            else if (aValue > bValue) comparison = 1;
+        if (fieldValues.length > this.orders.length) {
+            throw invalidQueryError('Too many cursor values specified. The specified values must match the orderBy() constraints of the query.');
+        }
+
+        return { values: [...fieldValues], inclusive };
+    }
+
+    /**
+     * Compare a document against a cursor position using the query's ordering
+     * @returns Negative if the document sorts before the cursor, positive if after, 0 if at the cursor
+     */
+    protected compareToCursor(doc: StoredDocument, cursor: QueryCursor): number {
+        const orders = this.getEffectiveOrders();
+        for (let i = 0; i < cursor.values.length; i++) {
+            const order = orders[i];
+            const comparison = order.field === '__name__'
+                ? compareReferencePaths(doc.path, this.resolveCursorDocumentPath(cursor.values[i]))
+                : compareValues(this.getFieldValue(doc, order.field), cursor.values[i]);
 
             if (comparison !== 0) {
                 return order.direction === 'asc' ? comparison : -comparison;
@@ -860,208 +2158,372 @@ class StubQuery implements IQuery {
         return 0;
     }
 
-    protected findStartAfterIndex(documents: StoredDocument[]): number {
-        const startAfterValue = this.startAfterValues![0];
+    private resolveCursorDocumentPath(value: any): string {
+        if (typeof value === 'string') {
+            return value.includes('/') ? value : `${this.collectionPath}/${value}`;
+        }
+        return value.path;
+    }
+}
+
+/**
+ * Stub CollectionReference implementation
+ */
+class StubCollectionReference<T = any> extends StubQuery<T> implements ICollectionReference<T> {
+    constructor(storage: Map<string, StoredDocument>, collectionPath: string, db: StubFirestoreDatabase, converter: FirestoreDataConverter<T> | null = null) {
+        super(storage, collectionPath, db, converter);
+    }
+
+    get id(): string {
+        const parts = this.collectionPath.split('/');
+        return parts[parts.length - 1];
+    }
+
+    get path(): string {
+        return this.collectionPath;
+    }
+
+    get parent(): IDocumentReference | null {
+        const parts = this.collectionPath.split('/');
+        if (parts.length <= 1) return null;
+
+        const docPath = parts.slice(0, -1).join('/');
+        return new StubDocumentReference(this.storage, docPath, this.db);
+    }
+
+    doc(documentId?: string): IDocumentReference<T> {
+        const docPath = resolveResourcePath('documentPath', this.collectionPath, documentId ?? this.generateId());
+        return new StubDocumentReference(this.storage, docPath, this.db, this.converter);
+    }
+
+    async listDocuments(): Promise<IDocumentReference<T>[]> {
+        return listChildIds(this.storage, this.collectionPath).map((documentId) => this.doc(documentId));
+    }
+
+    withConverter<U>(converter: FirestoreDataConverter<U>): ICollectionReference<U>;
+    withConverter(converter: null): ICollectionReference<DocumentData>;
+    withConverter<U>(converter: FirestoreDataConverter<U> | null): ICollectionReference<U> {
+        return this.copyQueryStateTo(new StubCollectionReference<U>(this.storage, this.collectionPath, this.db, converter));
+    }
+
+    protected clone(): StubCollectionReference<T> {
+        return this.copyQueryStateTo(new StubCollectionReference(this.storage, this.collectionPath, this.db, this.converter));
+    }
+
+    private generateId(): string {
+        return `stub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+}
+
+/**
+ * Stub Transaction implementation
+ */
+class StubTransaction implements ITransaction {
+    /** Version (update time) of each document read, or null for documents that did not exist */
+    private reads = new Map<string, Timestamp | null>();
+    private writes: PendingWrite[] = [];
+
+    constructor(
+        private readonly storage: Map<string, StoredDocument>,
+        private readonly db: StubFirestoreDatabase,
+        private readonly readOnly: boolean = false,
+    ) {}
+
+    async get<T>(documentRef: IDocumentReference<T>): Promise<IDocumentSnapshot<T>>;
+    async get<T>(query: IQuery<T>): Promise<IQuerySnapshot<T>>;
+    async get<T>(documentRefOrQuery: IDocumentReference<T> | IQuery<T>): Promise<IDocumentSnapshot<T> | IQuerySnapshot<T>> {
+        if (this.writes.length > 0) {
+            throw new Error(READ_AFTER_WRITE_ERROR_MSG);
+        }
+
+        if (documentRefOrQuery instanceof StubDocumentReference) {
+            const docRef = documentRefOrQuery as StubDocumentReference<T>;
+            this.db.assertNoFault('get', [docRef.path]);
+            const doc = this.storage.get(docRef.path);
+            this.recordRead(docRef.path, doc);
+            return new StubDocumentSnapshot(doc ?? null, docRef, this.db.getReadTime());
+        } else {
+            const snapshot = await (documentRefOrQuery as StubQuery<T>).get();
+            for (const doc of snapshot.docs) {
+                this.reads.set(doc.ref.path, doc.updateTime ?? null);
+            }
+            return snapshot;
+        }
+    }
+
+    async getAll<T = any>(...documentRefsOrReadOptions: Array<IDocumentReference<T> | ReadOptions>): Promise<IDocumentSnapshot<T>[]> {
+        if (this.writes.length > 0) {
+            throw new Error(READ_AFTER_WRITE_ERROR_MSG);
+        }
+
+        const { documentRefs, fieldMask } = parseGetAllArguments('Transaction.getAll', documentRefsOrReadOptions);
+        this.db.assertNoFault('get', documentRefs.map((docRef) => docRef.path));
+        const readTime = this.db.getReadTime();
+        return documentRefs.map((docRef) => {
+            const doc = this.storage.get(docRef.path);
+            this.recordRead(docRef.path, doc);
+            return createMaskedSnapshot(docRef, doc, readTime, fieldMask);
+        });
+    }
+
+    set<T>(documentRef: IDocumentReference<T>, data: T | Partial<T>, options?: SetOptions): ITransaction {
+        this.assertWritable();
+        const ref = documentRef as StubDocumentReference<T>;
+        this.writes.push({ ref, write: { type: 'set', data: ref.prepareSetData(data, options), options } });
+        return this;
+    }
+
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): ITransaction {
+        this.assertWritable();
+        const ref = documentRef as StubDocumentReference;
+        const updateData = ref.prepareUpdateData(data);
+        validatePrecondition(precondition, [true]);
+        this.writes.push({ ref, write: { type: 'update', data: updateData, precondition } });
+        return this;
+    }
+
+    delete(documentRef: IDocumentReference, precondition?: Precondition): ITransaction {
+        this.assertWritable();
+        validatePrecondition(precondition);
+        this.writes.push({ ref: documentRef as StubDocumentReference, write: { type: 'delete', precondition } });
+        return this;
+    }
+
+    create<T>(documentRef: IDocumentReference<T>, data: T): ITransaction {
+        this.assertWritable();
+        const ref = documentRef as StubDocumentReference<T>;
+        this.writes.push({ ref, write: { type: 'create', data: ref.prepareSetData(data) } });
+        return this;
+    }
 
-        if (typeof startAfterValue === 'object' && 'id' in startAfterValue) {
-            return documents.findIndex((doc) => doc.id === startAfterValue.id);
+    async commit(): Promise<void> {
+        if (this.readOnly) {
+            // Read-only transactions read a consistent snapshot and have nothing to commit
+            return;
         }
 
-        return documents.findIndex((doc) => {
-            if (this.orders.length > 0) {
-                const fieldValue = this.getFieldValue(doc, this.orders[0].field);
+        const touchedPaths = [...this.reads.keys(), ...this.writes.map((write) => write.ref.path)];
+        this.db.assertNoFault('transaction', touchedPaths);
 
-                // Handle Timestamp comparisons
-                if (fieldValue instanceof Timestamp && startAfterValue instanceof Timestamp) {
-                    return fieldValue.seconds === startAfterValue.seconds && fieldValue.nanoseconds === startAfterValue.nanoseconds;
-                }
+        // A document changed since it was read if its version differs, including being created or deleted
+        for (const [path, readVersion] of this.reads.entries()) {
+            const currentDoc = this.storage.get(path);
+            const currentVersion = currentDoc?.exists ? currentDoc.updateTime : null;
+            if (readVersion === null || currentVersion === null ? readVersion !== currentVersion : !readVersion.isEqual(currentVersion)) {
+                throw new FirestoreError('aborted', TRANSACTION_CONTENTION_MSG);
+            }
+        }
 
-                // Handle Date comparisons
-                if (fieldValue instanceof Date && startAfterValue instanceof Date) {
-                    return fieldValue.getTime() === startAfterValue.getTime();
-                }
+        await this.db.commitWrites(this.writes);
+    }
 
-                // Handle Timestamp vs Date comparisons
-                if (fieldValue instanceof Timestamp && startAfterValue instanceof Date) {
-                    return fieldValue.toDate().getTime() === startAfterValue.getTime();
-                }
-                if (fieldValue instanceof Date && startAfterValue instanceof Timestamp) {
-                    return fieldValue.getTime() === startAfterValue.toDate().getTime();
-                }
+    private recordRead(path: string, doc: StoredDocument | undefined): void {
+        this.reads.set(path, doc?.exists ? doc.updateTime : null);
+    }
 
-                // Fallback to equality comparison for primitives
-                return fieldValue === startAfterValue;
-            }
-            return doc.id === startAfterValue;
-        });
+    private assertWritable(): void {
+        if (this.readOnly) {
+            throw new Error(READ_ONLY_WRITE_ERROR_MSG);
+        }
     }
 }
 
 /**
- * Stub CollectionReference implementation
+ * Stub WriteBatch implementation
  */
-class StubCollectionReference extends StubQuery implements ICollectionReference {
-    constructor(storage: Map<string, StoredDocument>, collectionPath: string, db: StubFirestoreDatabase) {
-        super(storage, collectionPath, db);
-    }
+class StubWriteBatch implements IWriteBatch {
+    private operations: PendingWrite[] = [];
+    private committed = false;
 
-    get parent(): IDocumentReference | null {
-        const parts = this.collectionPath.split('/');
-        if (parts.length <= 1) return null;
+    constructor(private readonly db: StubFirestoreDatabase) {}
 
-        const docPath = parts.slice(0, -1).join('/');
-        return new StubDocumentReference(this.storage, docPath, this.db);
+    set<T>(documentRef: IDocumentReference<T>, data: T | Partial<T>, options?: SetOptions): IWriteBatch {
+        const ref = documentRef as StubDocumentReference<T>;
+        return this.addOperation(ref, { type: 'set', data: ref.prepareSetData(data, options), options });
     }
 
-    doc(documentId?: string): IDocumentReference {
-        const id = documentId ?? this.generateId();
-        const docPath = `${this.collectionPath}/${id}`;
-        return new StubDocumentReference(this.storage, docPath, this.db);
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): IWriteBatch {
+        const ref = documentRef as StubDocumentReference;
+        const updateData = ref.prepareUpdateData(data);
+        validatePrecondition(precondition, [true]);
+        return this.addOperation(ref, { type: 'update', data: updateData, precondition });
     }
 
-    protected clone(): StubCollectionReference {
-        const cloned = new StubCollectionReference(this.storage, this.collectionPath, this.db);
-        cloned.filters = [...this.filters];
-        cloned.orders = [...this.orders];
-        cloned.limitCount = this.limitCount;
-        cloned.offsetCount = this.offsetCount;
-        cloned.startAfterValues = this.startAfterValues ? [...this.startAfterValues] : undefined;
-        cloned.selectedFields = this.selectedFields ? [...this.selectedFields] : undefined;
-        return cloned;
+    delete(documentRef: IDocumentReference, precondition?: Precondition): IWriteBatch {
+        validatePrecondition(precondition);
+        return this.addOperation(documentRef as StubDocumentReference, { type: 'delete', precondition });
     }
 
-    private generateId(): string {
-        return `stub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    create<T>(documentRef: IDocumentReference<T>, data: T): IWriteBatch {
+        const ref = documentRef as StubDocumentReference<T>;
+        return this.addOperation(ref, { type: 'create', data: ref.prepareSetData(data) });
     }
-}
-
-/**
- * Stub Transaction implementation
- */
-class StubTransaction implements ITransaction {
-    private reads = new Map<string, StoredDocument | null>();
-    private writes: Array<{ type: 'set' | 'update' | 'delete' | 'create'; ref: IDocumentReference; data?: any; options?: SetOptions; }> = [];
 
-    constructor(
-        private readonly storage: Map<string, StoredDocument>,
-        private readonly db: StubFirestoreDatabase,
-    ) {}
+    async commit(): Promise<void> {
+        this.verifyNotCommitted();
+        this.committed = true;
 
-    async get(documentRef: IDocumentReference): Promise<IDocumentSnapshot>;
-    async get(query: IQuery): Promise<IQuerySnapshot>;
-    async get(documentRefOrQuery: IDocumentReference | IQuery): Promise<IDocumentSnapshot | IQuerySnapshot> {
-        if ('getUnderlyingRef' in documentRefOrQuery || 'path' in documentRefOrQuery) {
-            const docRef = documentRefOrQuery as StubDocumentReference;
-            const doc = this.storage.get(docRef.path);
-            this.reads.set(docRef.path, doc ?? null);
-            return new StubDocumentSnapshot(doc ?? null, docRef);
-        } else {
-            const query = documentRefOrQuery as StubQuery;
-            return await query.get();
+        if (this.operations.length > MAX_BATCH_WRITES) {
+            throw new FirestoreError('invalid-argument', `maximum ${MAX_BATCH_WRITES} writes allowed per request`);
         }
+        this.db.assertNoFault('batch', this.operations.map((operation) => operation.ref.path));
+
+        await this.db.commitWrites(this.operations);
     }
 
-    set(documentRef: IDocumentReference, data: any, options?: SetOptions): ITransaction {
-        this.writes.push({ type: 'set', ref: documentRef, data, options });
+    private addOperation(ref: StubDocumentReference, write: DocumentWrite): IWriteBatch {
+        this.verifyNotCommitted();
+        this.operations.push({ ref, write });
         return this;
     }
 
-    update(documentRef: IDocumentReference, data: any): ITransaction {
-        this.writes.push({ type: 'update', ref: documentRef, data });
-        return this;
+    private verifyNotCommitted(): void {
+        if (this.committed) {
+            throw new Error('Cannot modify a WriteBatch that has been committed.');
+        }
     }
+}
 
-    delete(documentRef: IDocumentReference): ITransaction {
-        this.writes.push({ type: 'delete', ref: documentRef });
-        return this;
+interface BulkWriterOperation {
+    ref: StubDocumentReference;
+    write: DocumentWrite;
+    failedAttempts: number;
+    resolve: (result: IWriteResult) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Stub BulkWriter implementation. Like the SDK, enqueued writes are sent without waiting for flush():
+ * straight away once 20 are queued, and otherwise as soon as the code that enqueued them yields.
+ * Writes are applied one at a time and each commits on its own, so a failure only affects that write.
+ */
+class StubBulkWriter implements IBulkWriter {
+    private pending: BulkWriterOperation[] = [];
+    private sendScheduled = false;
+    private lastFlush: Promise<void> = Promise.resolve();
+    private closePromise?: Promise<void>;
+    private successCallback: (documentRef: IDocumentReference, result: IWriteResult) => void = () => {};
+    private shouldRetryCallback: (error: IBulkWriterError) => boolean = (error) => {
+        const isRetryableDeleteError = error.operationType === 'delete' && error.code === 13;
+        return (BULK_WRITER_RETRY_CODES.has(error.code) || isRetryableDeleteError) && error.failedAttempts < MAX_BULK_WRITER_ATTEMPTS;
+    };
+
+    constructor(private readonly db: StubFirestoreDatabase) {}
+
+    create<T>(documentRef: IDocumentReference<T>, data: T): Promise<IWriteResult> {
+        const ref = documentRef as StubDocumentReference<T>;
+        return this.enqueue(ref, { type: 'create', data: ref.prepareSetData(data) });
     }
 
-    create(documentRef: IDocumentReference, data: any): ITransaction {
-        this.writes.push({ type: 'create', ref: documentRef, data });
-        return this;
+    set<T>(documentRef: IDocumentReference<T>, data: T | Partial<T>, options?: SetOptions): Promise<IWriteResult> {
+        const ref = documentRef as StubDocumentReference<T>;
+        return this.enqueue(ref, { type: 'set', data: ref.prepareSetData(data, options), options });
     }
 
-    async commit(): Promise<void> {
-        this.db.beginAtomicOperation();
-        let success = false;
-        try {
-            for (const [path, readDoc] of this.reads.entries()) {
-                const currentDoc = this.storage.get(path);
-                if (JSON.stringify(readDoc) !== JSON.stringify(currentDoc ?? null)) {
-                    throw new Error(`Transaction failed: document ${path} was modified`);
-                }
-            }
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): Promise<IWriteResult> {
+        const ref = documentRef as StubDocumentReference;
+        const updateData = ref.prepareUpdateData(data);
+        validatePrecondition(precondition, [true]);
+        return this.enqueue(ref, { type: 'update', data: updateData, precondition });
+    }
 
-            for (const write of this.writes) {
-                const ref = write.ref as StubDocumentReference;
-                switch (write.type) {
-                    case 'set':
-                        await ref.set(write.data!, write.options);
-                        break;
-                    case 'update':
-                        await ref.update(write.data!);
-                        break;
-                    case 'delete':
-                        await ref.delete();
-                        break;
-                    case 'create':
-                        const existing = this.storage.get(ref.path);
-                        if (existing?.exists) {
-                            throw new Error(`Document ${ref.path} already exists`);
-                        }
-                        await ref.set(write.data!);
-                        break;
-                }
-            }
-            success = true;
-        } finally {
-            await this.db.endAtomicOperation(success);
-        }
+    delete(documentRef: IDocumentReference, precondition?: Precondition): Promise<IWriteResult> {
+        validatePrecondition(precondition);
+        return this.enqueue(documentRef as StubDocumentReference, { type: 'delete', precondition });
     }
-}
 
-/**
- * Stub WriteBatch implementation
- */
-class StubWriteBatch implements IWriteBatch {
-    private operations: Array<() => Promise<void>> = [];
+    onWriteResult(callback: (documentRef: IDocumentReference, result: IWriteResult) => void): void {
+        this.successCallback = callback;
+    }
 
-    constructor(
-        private readonly storage: Map<string, StoredDocument>,
-        private readonly db: StubFirestoreDatabase,
-    ) {}
+    onWriteError(shouldRetryCallback: (error: IBulkWriterError) => boolean): void {
+        this.shouldRetryCallback = shouldRetryCallback;
+    }
 
-    set(documentRef: IDocumentReference, data: any, options?: SetOptions): IWriteBatch {
-        this.operations.push(async () => {
-            await documentRef.set(data, options);
-        });
-        return this;
+    flush(): Promise<void> {
+        this.verifyNotClosed();
+        return this.sendPending();
     }
 
-    update(documentRef: IDocumentReference, data: any): IWriteBatch {
-        this.operations.push(async () => {
-            await documentRef.update(data);
-        });
-        return this;
+    close(): Promise<void> {
+        if (!this.closePromise) {
+            this.closePromise = this.flush();
+        }
+        return this.closePromise;
     }
 
-    delete(documentRef: IDocumentReference): IWriteBatch {
-        this.operations.push(async () => {
-            await documentRef.delete();
+    /**
+     * Send the queued writes after any writes already being sent
+     */
+    private sendPending(): Promise<void> {
+        const operations = this.pending;
+        this.pending = [];
+        this.lastFlush = this.lastFlush.then(async () => {
+            for (const operation of operations) {
+                await this.execute(operation);
+            }
+        });
+        return this.lastFlush;
+    }
+
+    private enqueue(ref: StubDocumentReference, write: DocumentWrite): Promise<IWriteResult> {
+        this.verifyNotClosed();
+        return new Promise<IWriteResult>((resolve, reject) => {
+            this.pending.push({ ref, write, failedAttempts: 0, resolve, reject });
+            if (this.pending.length >= BULK_WRITER_BATCH_SIZE) {
+                void this.sendPending();
+            } else if (!this.sendScheduled) {
+                this.sendScheduled = true;
+                queueMicrotask(() => {
+                    this.sendScheduled = false;
+                    void this.sendPending();
+                });
+            }
         });
-        return this;
     }
 
-    async commit(): Promise<void> {
-        this.db.beginAtomicOperation();
-        let success = false;
-        try {
-            for (const operation of this.operations) {
-                await operation();
+    /**
+     * Apply an operation, retrying it for as long as the error callback asks to
+     */
+    private async execute(operation: BulkWriterOperation): Promise<void> {
+        for (;;) {
+            let result: IWriteResult;
+            try {
+                result = await this.db.applyBulkWrite(operation.ref, operation.write);
+            } catch (error) {
+                operation.failedAttempts++;
+                const code = (error as { code?: unknown; }).code;
+                const bulkWriterError = new BulkWriterError(
+                    typeof code === 'number' ? code : 2,
+                    (error as Error).message,
+                    operation.ref,
+                    operation.write.type,
+                    operation.failedAttempts,
+                );
+                try {
+                    if (this.shouldRetryCallback(bulkWriterError)) {
+                        continue;
+                    }
+                    operation.reject(bulkWriterError);
+                } catch (callbackError) {
+                    operation.reject(callbackError);
+                }
+                return;
             }
-            success = true;
-        } finally {
-            await this.db.endAtomicOperation(success);
+
+            try {
+                this.successCallback(operation.ref, result);
+                operation.resolve(result);
+            } catch (callbackError) {
+                operation.reject(callbackError);
+            }
+            return;
+        }
+    }
+
+    private verifyNotClosed(): void {
+        if (this.closePromise) {
+            throw new Error('BulkWriter has already been closed.');
         }
     }
 }
@@ -1070,24 +2532,54 @@ class StubWriteBatch implements IWriteBatch {
  * Stub Firestore Database implementation
  */
 export class StubFirestoreDatabase implements IFirestoreDatabase {
+    readonly ignoreUndefinedProperties: boolean;
+    private readonly validateSeedData: boolean;
+    private readonly indexSet?: FirestoreIndexSet;
     private storage = new Map<string, StoredDocument>();
     private triggerRegistrations: TriggerRegistration[] = [];
     private triggerBuffers: TriggerEventRecord[][] = [];
     private docWatchers = new Map<string, Set<DocumentWatcher>>();
     private docWatchBuffers: Array<Set<string>> = [];
     private queryWatchers = new Set<QueryWatcher>();
-    private queryWatchBuffers: boolean[] = [];
+    private queryWatchBuffers: Array<Set<string>> = [];
+    private faultRules: FaultRule[] = [];
+    private lastCommitMicros = 0;
+    private atomicCommitTime?: Timestamp;
+
+    constructor(options: StubFirestoreDatabaseOptions = {}) {
+        this.ignoreUndefinedProperties = options.ignoreUndefinedProperties ?? false;
+        this.validateSeedData = options.validateSeedData ?? false;
+        if (options.indexes) {
+            this.indexSet = new FirestoreIndexSet(loadIndexConfig(options.indexes));
+        }
+    }
 
     collection(collectionPath: string): ICollectionReference {
-        return new StubCollectionReference(this.storage, collectionPath, this);
+        return new StubCollectionReference(this.storage, resolveResourcePath('collectionPath', '', collectionPath), this);
     }
 
     doc(documentPath: string): IDocumentReference {
-        return new StubDocumentReference(this.storage, documentPath, this);
+        return new StubDocumentReference(this.storage, resolveResourcePath('documentPath', '', documentPath), this);
     }
 
     collectionGroup(collectionId: string): IQuery {
-        return new StubQuery(this.storage, collectionId, this);
+        if (collectionId.includes('/')) {
+            throw new Error(`Invalid collectionId '${collectionId}'. Collection IDs must not contain '/'.`);
+        }
+        const query = new StubQuery(this.storage, collectionId, this);
+        query.markAsCollectionGroup();
+        return query;
+    }
+
+    async getAll<T = any>(...documentRefsOrReadOptions: Array<IDocumentReference<T> | ReadOptions>): Promise<IDocumentSnapshot<T>[]> {
+        const { documentRefs, fieldMask } = parseGetAllArguments('Firestore.getAll', documentRefsOrReadOptions);
+        this.assertNoFault('get', documentRefs.map((docRef) => docRef.path));
+        const readTime = this.getReadTime();
+        return documentRefs.map((docRef) => createMaskedSnapshot(docRef, this.storage.get(docRef.path), readTime, fieldMask));
+    }
+
+    assertQueryIndexed(requirement: QueryIndexRequirement): void {
+        this.indexSet?.assertIndexed(requirement);
     }
 
     addDocumentWatcher(path: string, listener: DocumentWatcher): () => void {
@@ -1098,27 +2590,41 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
         }
         listeners.add(listener);
 
-        queueMicrotask(() => {
-            try {
-                const snapshot = this.createStaticSnapshot(path, this.storage.get(path) ?? null);
-                listener.callback(snapshot);
-            } catch (error) {
-                if (listener.error) {
-                    listener.error(error as Error);
-                }
-            }
-        });
+        queueMicrotask(() => this.notifyDocumentWatcher(path, listener, this.storage.get(path) ?? null));
 
-        return () => {
-            const current = this.docWatchers.get(path);
-            if (!current) {
-                return;
-            }
-            current.delete(listener);
-            if (current.size === 0) {
-                this.docWatchers.delete(path);
+        return () => this.removeDocumentWatcher(path, listener);
+    }
+
+    private removeDocumentWatcher(path: string, listener: DocumentWatcher): void {
+        const current = this.docWatchers.get(path);
+        if (!current) {
+            return;
+        }
+        current.delete(listener);
+        if (current.size === 0) {
+            this.docWatchers.delete(path);
+        }
+    }
+
+    /**
+     * Deliver a snapshot to a document listener. If a 'listen' fault matches, the listener gets the error
+     * instead and is detached, as the SDK does when a listen stream fails.
+     */
+    private notifyDocumentWatcher(path: string, listener: DocumentWatcher, doc: StoredDocument | null): void {
+        const fault = this.consumeFault('listen', [path]);
+        if (fault) {
+            this.removeDocumentWatcher(path, listener);
+            listener.error?.(fault);
+            return;
+        }
+
+        try {
+            listener.callback(this.createStaticSnapshot(path, doc, listener.converter));
+        } catch (error) {
+            if (listener.error) {
+                listener.error(error as Error);
             }
-        };
+        }
     }
 
     addQueryWatcher(watcher: QueryWatcher): () => void {
@@ -1126,8 +2632,10 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
 
         Promise.resolve().then(async () => {
             try {
-                const snapshot = await watcher.query.get();
-                watcher.callback(snapshot);
+                const snapshot = await this.nextQuerySnapshot(watcher);
+                if (snapshot) {
+                    watcher.callback(snapshot);
+                }
             } catch (error) {
                 if (watcher.error) {
                     watcher.error(error as Error);
@@ -1142,7 +2650,7 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
 
     emitDocumentChange(path: string): void {
         this.queueDocumentNotification(path);
-        this.markQueryWatchersDirty();
+        this.markQueryWatchersDirty(path);
     }
 
     private queueDocumentNotification(path: string): void {
@@ -1159,41 +2667,44 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
             return;
         }
 
-        const snapshot = this.createStaticSnapshot(path, this.storage.get(path) ?? null);
+        const doc = this.storage.get(path) ?? null;
         for (const listener of Array.from(listeners)) {
-            try {
-                listener.callback(snapshot);
-            } catch (error) {
-                if (listener.error) {
-                    listener.error(error as Error);
-                }
-            }
+            this.notifyDocumentWatcher(path, listener, doc);
         }
     }
 
-    private markQueryWatchersDirty(): void {
+    private markQueryWatchersDirty(path: string): void {
         if (this.queryWatchers.size === 0) {
             return;
         }
 
         if (this.queryWatchBuffers.length > 0) {
-            this.queryWatchBuffers[this.queryWatchBuffers.length - 1] = true;
+            this.queryWatchBuffers[this.queryWatchBuffers.length - 1].add(path);
             return;
         }
 
-        this.runAllQueryWatchers();
+        this.runQueryWatchers(new Set([path]));
     }
 
-    private runAllQueryWatchers(): void {
-        if (this.queryWatchers.size === 0) {
+    /**
+     * Re-run the listeners whose query could contain one of the written documents
+     */
+    private runQueryWatchers(changedPaths: Set<string>): void {
+        if (this.queryWatchers.size === 0 || changedPaths.size === 0) {
             return;
         }
 
         for (const watcher of Array.from(this.queryWatchers)) {
+            if (!Array.from(changedPaths).some((path) => watcher.query.isInCollection(path))) {
+                continue;
+            }
+
             void (async () => {
                 try {
-                    const snapshot = await watcher.query.get();
-                    watcher.callback(snapshot);
+                    const snapshot = await this.nextQuerySnapshot(watcher);
+                    if (snapshot) {
+                        watcher.callback(snapshot);
+                    }
                 } catch (error) {
                     if (watcher.error) {
                         watcher.error(error as Error);
@@ -1203,6 +2714,26 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
         }
     }
 
+    /**
+     * Run a listener's query, returning null when its results are unchanged since the last snapshot.
+     * If a 'listen' fault matches a snapshot to deliver, the listener is detached and the fault thrown.
+     */
+    private async nextQuerySnapshot(watcher: QueryWatcher): Promise<IQuerySnapshot | null> {
+        const isFirstSnapshot = watcher.previousDocuments === undefined;
+        const { snapshot, documents } = watcher.query.getSnapshotSince(watcher.previousDocuments ?? []);
+        watcher.previousDocuments = documents;
+        if (!isFirstSnapshot && snapshot.docChanges().length === 0) {
+            return null;
+        }
+
+        const fault = this.consumeFault('listen', [watcher.path]);
+        if (fault) {
+            this.queryWatchers.delete(watcher);
+            throw fault;
+        }
+        return snapshot;
+    }
+
     registerTrigger(pattern: string, handlers: FirestoreTriggerHandlers): () => void {
         const { regex, paramNames } = compilePathPattern(pattern);
         const registration: TriggerRegistration = {
@@ -1223,16 +2754,43 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
         this.triggerRegistrations = [];
     }
 
-    beginAtomicOperation(): void {
+    /**
+     * Time to stamp on a write. Every write in a batch or transaction commit shares one time;
+     * otherwise each write gets a new time, strictly later than any before it.
+     */
+    getCommitTime(): Timestamp {
+        return this.atomicCommitTime ?? this.nextCommitTime();
+    }
+
+    /**
+     * Time to stamp on a snapshot: now, but never earlier than the last commit
+     */
+    getReadTime(): Timestamp {
+        return toTimestampFromMicros(Math.max(Date.now() * 1000, this.lastCommitMicros));
+    }
+
+    private nextCommitTime(): Timestamp {
+        // Firestore timestamps have microsecond precision, so consecutive writes are at least 1µs apart
+        this.lastCommitMicros = Math.max(Date.now() * 1000, this.lastCommitMicros + 1);
+        return toTimestampFromMicros(this.lastCommitMicros);
+    }
+
+    private beginAtomicOperation(): void {
+        if (this.triggerBuffers.length === 0) {
+            this.atomicCommitTime = this.nextCommitTime();
+        }
         this.triggerBuffers.push([]);
         this.docWatchBuffers.push(new Set());
-        this.queryWatchBuffers.push(false);
+        this.queryWatchBuffers.push(new Set());
     }
 
-    async endAtomicOperation(success: boolean): Promise<void> {
+    private async endAtomicOperation(success: boolean): Promise<void> {
         const triggerBuffer = this.triggerBuffers.pop() ?? [];
         const docBuffer = this.docWatchBuffers.pop() ?? new Set<string>();
-        const queryDirty = this.queryWatchBuffers.pop() ?? false;
+        const queryBuffer = this.queryWatchBuffers.pop() ?? new Set<string>();
+        if (this.triggerBuffers.length === 0) {
+            this.atomicCommitTime = undefined;
+        }
 
         if (!success) {
             return;
@@ -1242,9 +2800,8 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
             this.triggerBuffers[this.triggerBuffers.length - 1].push(...triggerBuffer);
             const parentDocBuffer = this.docWatchBuffers[this.docWatchBuffers.length - 1];
             docBuffer.forEach((path) => parentDocBuffer.add(path));
-            if (queryDirty) {
-                this.queryWatchBuffers[this.queryWatchBuffers.length - 1] = true;
-            }
+            const parentQueryBuffer = this.queryWatchBuffers[this.queryWatchBuffers.length - 1];
+            queryBuffer.forEach((path) => parentQueryBuffer.add(path));
             return;
         }
 
@@ -1254,40 +2811,70 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
 
         docBuffer.forEach((path) => this.deliverDocumentSnapshot(path));
 
-        if (queryDirty) {
-            this.runAllQueryWatchers();
+        this.runQueryWatchers(queryBuffer);
+    }
+
+    /**
+     * Commit writes atomically. Each write is resolved against the documents as the earlier writes left them,
+     * and nothing is stored until all of them have passed their checks. The documents are then stored in one
+     * synchronous step, so no other code sees part of the commit, and triggers and listeners run once it completes.
+     * @returns The commit time
+     */
+    async commitWrites(writes: PendingWrite[]): Promise<Timestamp> {
+        this.beginAtomicOperation();
+        let success = false;
+        try {
+            const commitTime = this.getCommitTime();
+            const staged = new Map<string, StoredDocument | undefined>();
+            const changes = writes.map(({ ref, write }) => {
+                const before = staged.has(ref.path) ? staged.get(ref.path) : this.storage.get(ref.path);
+                const after = ref.resolveWrite(write, before, commitTime);
+                staged.set(ref.path, after);
+                return { path: ref.path, before: before?.exists ? before : null, after: after ?? null };
+            });
+
+            for (const [path, doc] of staged.entries()) {
+                if (doc) {
+                    this.storage.set(path, doc);
+                } else {
+                    this.storage.delete(path);
+                }
+            }
+
+            for (const { path, before, after } of changes) {
+                if (!before && !after) {
+                    // Deleting a missing document changes nothing
+                    continue;
+                }
+                this.recordTrigger(after ? (before ? 'update' : 'create') : 'delete', path, before, after);
+                this.emitDocumentChange(path);
+            }
+            success = true;
+            return commitTime;
+        } finally {
+            await this.endAtomicOperation(success);
         }
     }
 
-    async recordTrigger(type: FirestoreTriggerEventType, path: string, beforeDoc: StoredDocument | null, afterDoc: StoredDocument | null): Promise<void> {
+    /**
+     * Buffer a trigger event for the commit in progress, to be dispatched once it succeeds
+     */
+    private recordTrigger(type: FirestoreTriggerEventType, path: string, beforeDoc: StoredDocument | null, afterDoc: StoredDocument | null): void {
         if (this.triggerRegistrations.length === 0) {
             return;
         }
 
-        const beforeSnapshot = this.createStaticSnapshot(path, beforeDoc);
-        const afterSnapshot = this.createStaticSnapshot(path, afterDoc);
-        const event: TriggerEventRecord = {
+        this.triggerBuffers[this.triggerBuffers.length - 1].push({
             type,
             path,
-            before: beforeSnapshot,
-            after: afterSnapshot,
-        };
-
-        if (this.triggerBuffers.length > 0) {
-            this.triggerBuffers[this.triggerBuffers.length - 1].push(event);
-            return;
-        }
-
-        await this.dispatchTrigger(event);
+            before: this.createStaticSnapshot(path, beforeDoc),
+            after: this.createStaticSnapshot(path, afterDoc),
+        });
     }
 
-    private createStaticSnapshot(path: string, doc: StoredDocument | null): IDocumentSnapshot {
-        const reference = new StubDocumentReference(this.storage, path, this);
-        if (!doc || !doc.exists) {
-            return new StaticDocumentSnapshot(reference, false, undefined);
-        }
-
-        return new StaticDocumentSnapshot(reference, true, cloneValue(doc.data));
+    private createStaticSnapshot(path: string, doc: StoredDocument | null, converter: FirestoreDataConverter<any> | null = null): IDocumentSnapshot {
+        const reference = new StubDocumentReference(this.storage, path, this, converter);
+        return new StaticDocumentSnapshot(reference, cloneStoredDocument(doc), this.getReadTime());
     }
 
     private async dispatchTrigger(event: TriggerEventRecord): Promise<void> {
@@ -1326,38 +2913,218 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
     }
 
     async listCollections(): Promise<ICollectionReference[]> {
-        const collections = new Set<string>();
+        return listChildIds(this.storage, '').map((collectionId) => this.collection(collectionId));
+    }
+
+    /**
+     * Run the update function in a transaction, retrying it (like the admin SDK) when the commit
+     * is aborted because a document it read was modified or contention was injected.
+     * Read-only transactions run once and reject writes. The stub keeps no document history,
+     * so point-in-time reads (a read-only transaction's readTime) are rejected as UNIMPLEMENTED.
+     * @param options - Read-only mode, read time or maximum attempts (defaults to 5)
+     */
+    async runTransaction<T>(updateFunction: (transaction: ITransaction) => Promise<T>, options?: TransactionOptions): Promise<T> {
+        if (options?.readOnly) {
+            if (options.readTime !== undefined && !(options.readTime instanceof Timestamp)) {
+                throw new Error('Value for argument "transactionOptions.readTime" is not a valid Timestamp.');
+            }
+            if (options.readTime !== undefined) {
+                throw new FirestoreError('unimplemented', 'StubFirestoreDatabase does not support point-in-time reads with transactionOptions.readTime.');
+            }
+        } else if (options?.maxAttempts !== undefined && (!Number.isInteger(options.maxAttempts) || options.maxAttempts < 1)) {
+            throw new Error(`Value for argument "transactionOptions.maxAttempts" must be within [1, Infinity] inclusive, but was: ${options.maxAttempts}`);
+        }
 
-        for (const path of this.storage.keys()) {
-            const parts = path.split('/');
-            if (parts.length >= 1) {
-                collections.add(parts[0]);
+        const readOnly = options?.readOnly === true;
+        const maxAttempts = options?.readOnly ? 1 : (options?.maxAttempts ?? DEFAULT_MAX_TRANSACTION_ATTEMPTS);
+        let lastError: unknown;
+
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            try {
+                const transaction = new StubTransaction(this.storage, this, readOnly);
+                const result = await updateFunction(transaction);
+                await transaction.commit();
+                return result;
+            } catch (error) {
+                lastError = error;
+                if (!RETRYABLE_TRANSACTION_CODES.has((error as { code?: unknown; })?.code as number)) {
+                    break;
+                }
             }
         }
 
-        return Array.from(collections).map((collectionPath) => this.collection(collectionPath));
+        throw lastError;
     }
 
-    async runTransaction<T>(updateFunction: (transaction: ITransaction) => Promise<T>): Promise<T> {
-        const transaction = new StubTransaction(this.storage, this);
-        const result = await updateFunction(transaction);
-        await transaction.commit();
-        return result;
+    /**
+     * Make the next transaction commits that read or write a matching document fail with ABORTED,
+     * so tests can verify that transaction functions are retried and are safe to run more than once.
+     * @param pathPattern - Document path pattern, using the same syntax as triggers (e.g. 'orders/{orderId}' or 'orders/*')
+     * @param failures - Number of commits to abort
+     * @returns Function that removes the injected contention
+     */
+    injectTransactionContention(pathPattern: string, failures: number = 1): () => void {
+        return this.failNext({ op: 'transaction', path: pathPattern, code: 'aborted', message: TRANSACTION_CONTENTION_MSG, times: failures });
     }
 
     batch(): IWriteBatch {
-        return new StubWriteBatch(this.storage, this);
+        return new StubWriteBatch(this);
+    }
+
+    bulkWriter(): IBulkWriter {
+        return new StubBulkWriter(this);
+    }
+
+    /**
+     * Delete a document or collection and every document beneath it through a BulkWriter, like the
+     * admin SDK: documents under the reference are deleted in document name order, so a parent document
+     * goes before its subcollections (r/1, r/1/s/1, r/2), and a document reference itself is deleted last.
+     * Each delete fires its own triggers and listener notifications, and deletes that still fail after
+     * the writer's retries reject the returned promise.
+     * @param ref - Document or collection to delete
+     * @param bulkWriter - Writer to delete with; it is flushed but not closed
+     */
+    async recursiveDelete(ref: ICollectionReference | IDocumentReference, bulkWriter?: IBulkWriter): Promise<void> {
+        const writer = bulkWriter ?? this.bulkWriter();
+        const prefix = `${ref.path}/`;
+        const paths = Array.from(this.storage.keys()).filter((path) => path.startsWith(prefix)).sort(compareReferencePaths);
+        if (ref instanceof StubDocumentReference) {
+            paths.push(ref.path);
+        }
+
+        let failures = 0;
+        let lastError: (Error & { code?: number; }) | undefined;
+        for (const path of paths) {
+            writer.delete(this.doc(path)).catch((error) => {
+                failures++;
+                lastError = error;
+            });
+        }
+        await writer.flush();
+
+        if (lastError) {
+            const message = `${failures} ${failures !== 1 ? 'deletes' : 'delete'} failed. The last delete failed with: ${lastError.message}`;
+            throw new FirestoreError(lastError.code ?? 'unknown', message, message);
+        }
+    }
+
+    /**
+     * Make the next BulkWriter writes to a matching document fail, so tests can exercise
+     * onWriteError retry logic. Failures are consumed per attempt, including retries.
+     * @param pathPattern - Document path pattern, using the same syntax as triggers (e.g. 'orders/{orderId}' or 'orders/*')
+     * @param failures - Number of write attempts to fail
+     * @param code - gRPC status code of the failure (defaults to 14 UNAVAILABLE, which BulkWriter retries)
+     * @returns Function that removes the injected failures
+     */
+    injectBulkWriterFailure(pathPattern: string, failures: number = 1, code: number = 14): () => void {
+        return this.failNext({ op: 'bulkWriter', path: pathPattern, code, times: failures });
+    }
+
+    /**
+     * Apply a single BulkWriter write as its own commit, failing it first if a fault was injected for
+     * BulkWriter writes or for the write's operation on the path
+     * @returns Result carrying the write's commit time
+     */
+    async applyBulkWrite(ref: StubDocumentReference, write: DocumentWrite): Promise<IWriteResult> {
+        this.assertNoFault('bulkWriter', [ref.path]);
+        this.assertNoFault(write.type, [ref.path]);
+        return { writeTime: await this.commitWrites([{ ref, write }]) };
+    }
+
+    /**
+     * Fail the next matching operations with a FirestoreError, to test how code copes with an unavailable,
+     * throttled or rejecting backend (e.g. `{ op: 'update', path: 'orders/*', code: 'unavailable', times: 2 }`).
+     * Failed writes leave the database unchanged.
+     * @returns Function that removes the fault
+     */
+    failNext(options: FirestoreFaultOptions = {}): () => void {
+        return this.addFaultRule(options, options.times ?? 1, 1, Math.random);
+    }
+
+    /**
+     * Fail matching operations at random with a FirestoreError, until removed or `times` operations have failed
+     * (e.g. `{ op: ['get', 'query'], code: 'deadline-exceeded', probability: 0.1 }`)
+     * @returns Function that removes the fault
+     */
+    failRandomly(options: FirestoreRandomFaultOptions): () => void {
+        if (!(options.probability >= 0 && options.probability <= 1)) {
+            throw new Error(`Fault probability must be between 0 and 1, but was: ${options.probability}`);
+        }
+        return this.addFaultRule(options, options.times ?? Infinity, options.probability, options.random ?? Math.random);
+    }
+
+    private addFaultRule(options: FirestoreFaultOptions, times: number, probability: number, random: () => number): () => void {
+        if (!(times > 0)) {
+            throw new Error(`Fault times must be positive, but was: ${times}`);
+        }
+
+        const operations = options.op === undefined ? null : Array.isArray(options.op) ? options.op : [options.op];
+        const rule: FaultRule = {
+            operations,
+            regex: options.path === undefined ? null : compilePathPattern(options.path).regex,
+            code: toGrpcStatusCode(options.code ?? 'unavailable'),
+            message: options.message,
+            remaining: times,
+            probability,
+            random,
+        };
+        this.faultRules.push(rule);
+
+        return () => {
+            this.faultRules = this.faultRules.filter((entry) => entry !== rule);
+        };
+    }
+
+    /**
+     * Find an injected fault for an operation on the given paths, counting it against the fault's remaining failures
+     * @returns The error to fail the operation with, if any
+     */
+    consumeFault(operation: FirestoreFaultOperation, paths: string[]): FirestoreError | undefined {
+        for (const rule of this.faultRules) {
+            if (rule.operations && !rule.operations.includes(operation)) {
+                continue;
+            }
+            // Rules without a path pattern match every operation of their kind, even one touching no documents
+            const path = rule.regex ? paths.find((candidate) => rule.regex!.test(candidate)) : paths[0];
+            if ((rule.regex && path === undefined) || rule.random() >= rule.probability) {
+                continue;
+            }
+
+            rule.remaining--;
+            if (rule.remaining === 0) {
+                this.faultRules = this.faultRules.filter((entry) => entry !== rule);
+            }
+            const details = path === undefined ? `Injected ${operation} failure` : `Injected ${operation} failure for ${path}`;
+            return new FirestoreError(rule.code, rule.message ?? details);
+        }
+        return undefined;
+    }
+
+    assertNoFault(operation: FirestoreFaultOperation, paths: string[]): void {
+        const fault = this.consumeFault(operation, paths);
+        if (fault) {
+            throw fault;
+        }
     }
 
     seed(documentPath: string, data: any): void {
         const parts = documentPath.split('/');
         const id = parts[parts.length - 1];
 
+        if (this.validateSeedData) {
+            validateSetData(data, false, this.ignoreUndefinedProperties);
+            data = this.ignoreUndefinedProperties ? removeUndefinedValues(data) : data;
+            assertStorableDocument(documentPath, data);
+        }
+
+        const commitTime = this.getCommitTime();
         this.storage.set(documentPath, {
             id,
             path: documentPath,
             data: { ...data },
             exists: true,
+            createTime: commitTime,
+            updateTime: commitTime,
         });
 
         this.emitDocumentChange(documentPath);
@@ -1365,6 +3132,7 @@ export class StubFirestoreDatabase implements IFirestoreDatabase {
 
     clear(): void {
         this.storage.clear();
+        this.faultRules = [];
     }
 
     getAllDocuments(): Map<string, any> {
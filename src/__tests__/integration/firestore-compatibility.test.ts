@@ -20,6 +20,7 @@ import * as path from 'path';
 import {
     attachTriggersToStub,
     createFirestoreDatabase,
+    type FirestoreDataConverter,
     type FirestoreTriggerChange,
     type IFirestoreDatabase,
     registerTriggerWithStub,
@@ -170,7 +171,8 @@ describe('Firestore Stub Compatibility - Integration Test', () => {
     }
 
     beforeEach(() => {
-        stubDb = new StubFirestoreDatabase();
+        // Enforce the same indexes that are deployed for the emulator and real Firestore runs
+        stubDb = new StubFirestoreDatabase({ indexes: path.resolve(__dirname, '../../..', 'firestore.indexes.json') });
 
         // Seed stub with same data (in-memory, always fast)
         for (const data of BASE_COLLECTION_DATA) {
@@ -311,6 +313,61 @@ describe('Firestore Stub Compatibility - Integration Test', () => {
                 expect(data?.city, `New merged field added (${mode})`).toBe('LA');
             });
         });
+
+        it('should track document metadata identically', async () => {
+            await testAllImplementations('metadata', async (db, mode) => {
+                const docRef = db.collection(testCollectionPrefix).doc('test-doc-5');
+
+                await docRef.set({ name: 'Original' });
+                const created = await docRef.get();
+                await docRef.update({ name: 'Updated' });
+                const updated = await docRef.get();
+
+                expect(created.createTime, `createTime set (${mode})`).toBeInstanceOf(Timestamp);
+                expect(updated.createTime!.isEqual(created.createTime!), `createTime unchanged (${mode})`).toBe(true);
+                expect(updated.updateTime!.valueOf() > created.updateTime!.valueOf(), `updateTime advanced (${mode})`).toBe(true);
+                expect(updated.readTime, `readTime set (${mode})`).toBeInstanceOf(Timestamp);
+
+                await docRef.delete();
+                const deleted = await docRef.get();
+                expect(deleted.updateTime, `no updateTime when missing (${mode})`).toBeUndefined();
+            });
+        });
+
+        it('should apply converters identically', async () => {
+            await testAllImplementations('converters', async (db, mode) => {
+                const converter: FirestoreDataConverter<{ label: string; }> = {
+                    toFirestore: (model: Partial<{ label: string; }>) => ({ stored: model.label }),
+                    fromFirestore: (snapshot) => ({ label: snapshot.data()!.stored }),
+                };
+                const collection = db.collection(testCollectionPrefix).withConverter(converter);
+
+                await collection.doc('test-doc-6').set({ label: 'Converted' });
+
+                const snapshot = await collection.doc('test-doc-6').get();
+                expect(snapshot.data(), `Converted on read (${mode})`).toEqual({ label: 'Converted' });
+
+                const raw = await db.collection(testCollectionPrefix).doc('test-doc-6').get();
+                expect(raw.data(), `Converted on write (${mode})`).toEqual({ stored: 'Converted' });
+
+                const querySnapshot = await collection.where('stored', '==', 'Converted').get();
+                expect(querySnapshot.docs.map((doc) => doc.data()), `Converted query results (${mode})`).toEqual([{ label: 'Converted' }]);
+            });
+        });
+
+        it('should read multiple documents identically', async () => {
+            await testAllImplementations('getAll', async (db, mode) => {
+                const collection = db.collection(testCollectionPrefix);
+                await collection.doc('test-doc-7').set({ name: 'First', age: 1 });
+                await collection.doc('test-doc-8').set({ name: 'Second', age: 2 });
+
+                const snapshots = await db.getAll(collection.doc('test-doc-8'), collection.doc('test-doc-missing'), collection.doc('test-doc-7'), { fieldMask: ['name'] });
+
+                expect(snapshots.map((snapshot) => snapshot.id), `Input order preserved (${mode})`).toEqual(['test-doc-8', 'test-doc-missing', 'test-doc-7']);
+                expect(snapshots[1].exists, `Missing document (${mode})`).toBe(false);
+                expect(snapshots[2].data(), `Field mask applied (${mode})`).toEqual({ name: 'First' });
+            });
+        });
     });
 
     describe('Query Operations', () => {
@@ -403,6 +460,20 @@ describe('Firestore Stub Compatibility - Integration Test', () => {
                 expect(indexes).toEqual([...indexes].sort((a, b) => a - b));
             });
         });
+
+        it('should return identical results when paging backwards', async () => {
+            await testAllImplementations('backwards pagination', async (db, mode) => {
+                const baseQuery = db.collection(TEST_PAGINATION_COLLECTION).orderBy('index');
+
+                const lastPage = await baseQuery.limitToLast(2).get();
+                const previousPage = await baseQuery.endBefore(lastPage.docs[0]).limitToLast(2).get();
+                const bounded = await baseQuery.startAt(1).endAt(3).get();
+
+                expect(lastPage.docs.map((doc) => doc.data().index), `Last page (${mode})`).toEqual([4, 5]);
+                expect(previousPage.docs.map((doc) => doc.data().index), `Previous page (${mode})`).toEqual([2, 3]);
+                expect(bounded.docs.map((doc) => doc.data().index), `Bounded page (${mode})`).toEqual([1, 2, 3]);
+            });
+        });
     });
 
     describe('Transaction Operations', () => {
@@ -462,6 +533,23 @@ describe('Firestore Stub Compatibility - Integration Test', () => {
                 expect(snapshot2.exists, `Batch doc 2 exists (${mode})`).toBe(true);
             });
         });
+
+        it('should apply BulkWriter writes independently', async () => {
+            await testAllImplementations('bulk writer', async (db, mode) => {
+                const doc1 = db.collection(testCollectionPrefix).doc('bulk-1');
+                const doc2 = db.collection(testCollectionPrefix).doc('bulk-2');
+                await doc1.set({ name: 'Existing' });
+
+                const writer = db.bulkWriter();
+                const failed = writer.create(doc1, { name: 'Duplicate' });
+                const succeeded = writer.set(doc2, { name: 'Bulk User 2' });
+                await writer.close();
+
+                await expect(failed, `Create existing rejected (${mode})`).rejects.toMatchObject({ code: 6, operationType: 'create' });
+                expect((await succeeded).writeTime, `Write time returned (${mode})`).toBeInstanceOf(Timestamp);
+                expect((await doc2.get()).data(), `Other writes applied (${mode})`).toEqual({ name: 'Bulk User 2' });
+            });
+        });
     });
 
     describe('Subcollections', () => {
@@ -499,6 +587,39 @@ describe('Firestore Stub Compatibility - Integration Test', () => {
                 }
             });
         });
+
+        it('should list subcollections and documents identically', async () => {
+            await testAllImplementations('list collections and documents', async (db, mode) => {
+                const parentsRef = db.collection(testCollectionPrefix);
+                await parentsRef.doc('group-4').set({ name: 'Listed Group' });
+                await parentsRef.doc('group-4').collection('members').doc('member-1').set({ name: 'Alice' });
+                await parentsRef.doc('group-5').collection('members').doc('member-1').set({ name: 'Bob' });
+
+                const documents = await parentsRef.listDocuments();
+                const ids = documents.map((document) => document.id);
+                expect(ids, `Existing document listed (${mode})`).toContain('group-4');
+                expect(ids, `Missing parent document listed (${mode})`).toContain('group-5');
+
+                const collections = await parentsRef.doc('group-5').listCollections();
+                expect(collections.map((collection) => collection.id), `Subcollections listed (${mode})`).toEqual(['members']);
+            });
+        });
+
+        it('should recursively delete subcollections identically', async () => {
+            await testAllImplementations('recursive delete', async (db, mode) => {
+                const groupRef = db.collection(testCollectionPrefix).doc('group-3');
+                await groupRef.set({ name: 'Doomed Group' });
+                await groupRef.collection('members').doc('member-1').set({ name: 'Alice' });
+                const roleRef = groupRef.collection('members').doc('member-1').collection('roles').doc('role-1');
+                await roleRef.set({ name: 'admin' });
+
+                await db.recursiveDelete(groupRef);
+
+                expect((await groupRef.get()).exists, `Document deleted (${mode})`).toBe(false);
+                expect((await groupRef.collection('members').get()).empty, `Subcollection deleted (${mode})`).toBe(true);
+                expect((await roleRef.get()).exists, `Nested subcollection deleted (${mode})`).toBe(false);
+            });
+        });
     });
 
     describe('Collection Group Queries', () => {
@@ -549,19 +670,48 @@ describe('Firestore Stub Compatibility - Integration Test', () => {
             await testAllImplementations('update non-existent', async (db, mode) => {
                 const docRef = db.collection(testCollectionPrefix).doc('does-not-exist-update');
 
-                try {
-                    await docRef.update({ field: 'value' });
-                    expect.fail(`Should have thrown error (${mode})`);
-                } catch (error: any) {
-                    const message = String(error?.message ?? error ?? '');
-                    const errorCode = error?.code;
-                    const matches = message.includes('No document to update')
-                        || message.includes('does not exist')
-                        || message.includes('NOT_FOUND')
-                        || errorCode === 5
-                        || errorCode === 'not-found';
-                    expect(matches, `Error message matches (${mode})`).toBe(true);
+                const error = await docRef.update({ field: 'value' }).catch((caught) => caught);
+                expect(error?.code, `NOT_FOUND code (${mode})`).toBe(5);
+                expect(error?.message, `Error message (${mode})`).toContain('No document to update');
+            });
+        });
+
+        it('should reject creating an existing document identically', async () => {
+            await testAllImplementations('create existing', async (db, mode) => {
+                const docRef = db.collection(testCollectionPrefix).doc('create-existing');
+
+                await docRef.create({ name: 'Original' });
+
+                const error = await docRef.create({ name: 'Duplicate' }).catch((caught) => caught);
+                expect(error?.code, `ALREADY_EXISTS code (${mode})`).toBe(6);
+                expect((await docRef.get()).data()?.name, `Original preserved (${mode})`).toBe('Original');
+
+                await docRef.delete();
+            });
+        });
+
+        it('should reject invalid write data identically', async () => {
+            await testAllImplementations('write validation', async (db, mode) => {
+                const docRef = db.collection(testCollectionPrefix).doc('invalid-data');
+
+                const undefinedError = await docRef.set({ name: 'Alice', email: undefined }).catch((caught) => caught);
+                expect(undefinedError?.message, `Undefined value rejected (${mode})`).toContain('Cannot use "undefined" as a Firestore value (found in field "email")');
+
+                class Address {
+                    constructor(readonly city: string) {}
                 }
+                expect(() => db.batch().set(docRef, { address: new Address('NYC') }), `Custom object rejected (${mode})`).toThrow('Couldn\'t serialize object of type "Address"');
+                expect(() => db.batch().update(docRef, {}), `Empty update rejected (${mode})`).toThrow('At least one field must be updated.');
+                expect((await docRef.get()).exists, `Nothing written (${mode})`).toBe(false);
+            });
+        });
+
+        it('should reject malformed paths identically', async () => {
+            await testAllImplementations('path validation', async (db, mode) => {
+                expect(() => db.collection(`${testCollectionPrefix}/doc-1`), `Collection parity (${mode})`).toThrow('Your path does not contain an odd number of components.');
+                expect(() => db.doc(testCollectionPrefix), `Document parity (${mode})`).toThrow('Your path does not contain an even number of components.');
+                expect(() => db.collection(testCollectionPrefix).doc('a//b'), `Empty segment (${mode})`).toThrow('Paths must not contain //.');
+                expect(db.doc(`/${testCollectionPrefix}/doc-1/`).path, `Slashes trimmed (${mode})`).toBe(`${testCollectionPrefix}/doc-1`);
             });
         });
     });
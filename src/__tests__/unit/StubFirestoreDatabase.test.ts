@@ -2,8 +2,10 @@
  * Example tests demonstrating StubFirestoreDatabase usage
  */
 
-import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { AggregateField, FieldPath, FieldValue, Filter, GeoPoint, Timestamp } from 'firebase-admin/firestore';
 import { beforeEach, describe, expect, it } from 'vitest';
+import { FirestoreError } from '../../firestore-errors';
+import type { FirestoreDataConverter, ICollectionReference, ITransaction } from '../../firestore-types';
 import { StubFirestoreDatabase } from '../../StubFirestoreDatabase';
 
 describe('StubFirestoreDatabase - Example Usage', () => {
@@ -113,77 +115,2034 @@ describe('StubFirestoreDatabase - Example Usage', () => {
         });
     });
 
+    describe('Composite filters', () => {
+        beforeEach(() => {
+            db.seed('docs/doc-1', { ownerId: 'alice', sharedWith: [], status: 'draft' });
+            db.seed('docs/doc-2', { ownerId: 'bob', sharedWith: ['alice'], status: 'published' });
+            db.seed('docs/doc-3', { ownerId: 'bob', sharedWith: ['carol'], status: 'draft' });
+            db.seed('docs/doc-4', { ownerId: 'carol', sharedWith: [], status: 'published' });
+        });
+
+        it('should apply Filter.or across different fields', async () => {
+            const snapshot = await db
+                .collection('docs')
+                .where(Filter.or(Filter.where('ownerId', '==', 'alice'), Filter.where('sharedWith', 'array-contains', 'alice')))
+                .get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['doc-1', 'doc-2']);
+        });
+
+        it('should apply a single Filter.where', async () => {
+            const snapshot = await db.collection('docs').where(Filter.where('status', '==', 'published')).get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['doc-2', 'doc-4']);
+        });
+
+        it('should evaluate nested Filter.and inside Filter.or', async () => {
+            const snapshot = await db
+                .collection('docs')
+                .where(
+                    Filter.or(
+                        Filter.and(Filter.where('ownerId', '==', 'bob'), Filter.where('status', '==', 'draft')),
+                        Filter.where('ownerId', '==', 'carol'),
+                    ),
+                )
+                .get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['doc-3', 'doc-4']);
+        });
+
+        it('should AND composite filters with regular where clauses', async () => {
+            const snapshot = await db
+                .collection('docs')
+                .where('status', '==', 'draft')
+                .where(Filter.or(Filter.where('ownerId', '==', 'alice'), Filter.where('ownerId', '==', 'carol')))
+                .get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['doc-1']);
+        });
+
+        it('should support FieldPath.documentId() inside a Filter', async () => {
+            const snapshot = await db
+                .collection('docs')
+                .where(Filter.or(Filter.where(FieldPath.documentId(), '==', 'doc-4'), Filter.where('ownerId', '==', 'alice')))
+                .get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['doc-1', 'doc-4']);
+        });
+
+        it('should apply composite filters to count()', async () => {
+            const snapshot = await db
+                .collection('docs')
+                .where(Filter.or(Filter.where('ownerId', '==', 'bob'), Filter.where('status', '==', 'published')))
+                .count()
+                .get();
+
+            expect(snapshot.data().count).toBe(3);
+        });
+
+        it('should apply composite filters to query listeners', async () => {
+            const results: string[][] = [];
+            const unsubscribe = db
+                .collection('docs')
+                .where(Filter.or(Filter.where('ownerId', '==', 'alice'), Filter.where('sharedWith', 'array-contains', 'alice')))
+                .onSnapshot((snapshot) => {
+                    results.push(snapshot.docs.map((doc) => doc.id));
+                });
+
+            await waitForUpdates();
+
+            await db.collection('docs').doc('doc-3').update({ sharedWith: ['carol', 'alice'] });
+            await waitForUpdates();
+
+            unsubscribe();
+
+            expect(results).toEqual([
+                ['doc-1', 'doc-2'],
+                ['doc-1', 'doc-2', 'doc-3'],
+            ]);
+        });
+    });
+
+    describe('Value ordering and equality', () => {
+        it('should match equal Timestamps and Dates by value', async () => {
+            db.seed('events/e1', { at: Timestamp.fromMillis(1_000) });
+            db.seed('events/e2', { at: Timestamp.fromMillis(2_000) });
+
+            const byTimestamp = await db.collection('events').where('at', '==', Timestamp.fromMillis(1_000)).get();
+            const byDate = await db.collection('events').where('at', '==', new Date(2_000)).get();
+
+            expect(byTimestamp.docs.map((doc) => doc.id)).toEqual(['e1']);
+            expect(byDate.docs.map((doc) => doc.id)).toEqual(['e2']);
+        });
+
+        it('should apply Timestamp range filters by value', async () => {
+            db.seed('events/e1', { at: Timestamp.fromMillis(1_000) });
+            db.seed('events/e2', { at: Timestamp.fromMillis(2_000) });
+            db.seed('events/e3', { at: Timestamp.fromMillis(3_000) });
+
+            const snapshot = await db
+                .collection('events')
+                .where('at', '>=', Timestamp.fromMillis(2_000))
+                .where('at', '<', new Date(3_000))
+                .get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['e2']);
+        });
+
+        it('should match arrays and maps by value', async () => {
+            db.seed('shapes/s1', { point: { x: 1, y: 2 }, tags: ['a', 'b'] });
+            db.seed('shapes/s2', { point: { x: 2, y: 1 }, tags: ['b', 'a'] });
+
+            const byMap = await db.collection('shapes').where('point', '==', { y: 2, x: 1 }).get();
+            const byArray = await db.collection('shapes').where('tags', 'in', [['b', 'a']]).get();
+            const byElement = await db.collection('shapes').where('tags', 'array-contains-any', ['a']).get();
+
+            expect(byMap.docs.map((doc) => doc.id)).toEqual(['s1']);
+            expect(byArray.docs.map((doc) => doc.id)).toEqual(['s2']);
+            expect(byElement.docs.map((doc) => doc.id)).toEqual(['s1', 's2']);
+        });
+
+        it('should match array-contains on Timestamps and maps by value', async () => {
+            db.seed('calendars/c1', { dates: [Timestamp.fromMillis(1_000)], owners: [{ id: 'u1' }] });
+            db.seed('calendars/c2', { dates: [Timestamp.fromMillis(2_000)], owners: [{ id: 'u2' }] });
+
+            const byDate = await db.collection('calendars').where('dates', 'array-contains', Timestamp.fromMillis(2_000)).get();
+            const byOwner = await db.collection('calendars').where('owners', 'array-contains', { id: 'u1' }).get();
+
+            expect(byDate.docs.map((doc) => doc.id)).toEqual(['c2']);
+            expect(byOwner.docs.map((doc) => doc.id)).toEqual(['c1']);
+        });
+
+        it('should compare document references by path', async () => {
+            db.seed('posts/p1', { author: db.doc('users/alice') });
+            db.seed('posts/p2', { author: db.doc('users/bob') });
+
+            const snapshot = await db.collection('posts').where('author', '==', db.doc('users/bob')).get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['p2']);
+        });
+
+        it('should order mixed types using Firestore type ordering', async () => {
+            db.seed('mixed/map', { value: { a: 1 } });
+            db.seed('mixed/array', { value: [1] });
+            db.seed('mixed/string', { value: 'text' });
+            db.seed('mixed/timestamp', { value: Timestamp.fromMillis(0) });
+            db.seed('mixed/number', { value: 42 });
+            db.seed('mixed/boolean', { value: true });
+            db.seed('mixed/null', { value: null });
+
+            const snapshot = await db.collection('mixed').orderBy('value').get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['null', 'boolean', 'number', 'timestamp', 'string', 'array', 'map']);
+        });
+
+        it('should only match range filters against values of the same type', async () => {
+            db.seed('mixed/n1', { value: 5 });
+            db.seed('mixed/s1', { value: '10' });
+            db.seed('mixed/t1', { value: Timestamp.fromMillis(0) });
+
+            const snapshot = await db.collection('mixed').where('value', '>', 1).get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['n1']);
+        });
+
+        it('should exclude documents missing the field from != and not-in filters', async () => {
+            db.seed('items/i1', { status: 'open' });
+            db.seed('items/i2', { status: 'closed' });
+            db.seed('items/i3', { status: null });
+            db.seed('items/i4', { other: true });
+
+            const notEqual = await db.collection('items').where('status', '!=', 'open').get();
+            const notIn = await db.collection('items').where('status', 'not-in', ['closed']).get();
+
+            expect(notEqual.docs.map((doc) => doc.id)).toEqual(['i2']);
+            expect(notIn.docs.map((doc) => doc.id)).toEqual(['i1']);
+        });
+
+        it('should exclude documents missing the orderBy field', async () => {
+            db.seed('items/i1', { rank: 2 });
+            db.seed('items/i2', { name: 'unranked' });
+            db.seed('items/i3', { rank: 1 });
+
+            const snapshot = await db.collection('items').orderBy('rank').get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['i3', 'i1']);
+        });
+
+        it('should order by document id by default and break ties by document id', async () => {
+            db.seed('items/c', { rank: 1 });
+            db.seed('items/a', { rank: 2 });
+            db.seed('items/b', { rank: 1 });
+
+            const unordered = await db.collection('items').get();
+            const ordered = await db.collection('items').orderBy('rank').get();
+
+            expect(unordered.docs.map((doc) => doc.id)).toEqual(['a', 'b', 'c']);
+            expect(ordered.docs.map((doc) => doc.id)).toEqual(['b', 'c', 'a']);
+        });
+
+        it('should implicitly order by the inequality field', async () => {
+            db.seed('items/a', { rank: 3 });
+            db.seed('items/b', { rank: 1 });
+            db.seed('items/c', { rank: 2 });
+
+            const snapshot = await db.collection('items').where('rank', '>', 0).get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['b', 'c', 'a']);
+        });
+
+        it('should find startAfter cursors on Timestamp fields by value', async () => {
+            db.seed('events/e1', { at: Timestamp.fromMillis(1_000) });
+            db.seed('events/e2', { at: Timestamp.fromMillis(2_000) });
+            db.seed('events/e3', { at: Timestamp.fromMillis(3_000) });
+
+            const snapshot = await db.collection('events').orderBy('at').startAfter(Timestamp.fromMillis(1_000)).get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['e2', 'e3']);
+        });
+    });
+
+    describe('Query cursors', () => {
+        beforeEach(() => {
+            db.seed('scores/a', { team: 'red', points: 10 });
+            db.seed('scores/b', { team: 'blue', points: 20 });
+            db.seed('scores/c', { team: 'red', points: 20 });
+            db.seed('scores/d', { team: 'blue', points: 30 });
+            db.seed('scores/e', { team: 'red', points: 40 });
+        });
+
+        const ids = (snapshot: { docs: Array<{ id: string; }>; }) => snapshot.docs.map((doc) => doc.id);
+
+        it('should include the cursor position with startAt and exclude it with startAfter', async () => {
+            const query = db.collection('scores').orderBy('points');
+
+            expect(ids(await query.startAt(20).get())).toEqual(['b', 'c', 'd', 'e']);
+            expect(ids(await query.startAfter(20).get())).toEqual(['d', 'e']);
+        });
+
+        it('should include the cursor position with endAt and exclude it with endBefore', async () => {
+            const query = db.collection('scores').orderBy('points');
+
+            expect(ids(await query.endAt(20).get())).toEqual(['a', 'b', 'c']);
+            expect(ids(await query.endBefore(20).get())).toEqual(['a']);
+        });
+
+        it('should combine start and end cursors', async () => {
+            const snapshot = await db.collection('scores').orderBy('points').startAfter(10).endAt(30).get();
+
+            expect(ids(snapshot)).toEqual(['b', 'c', 'd']);
+        });
+
+        it('should match multi-field cursors against the full orderBy list', async () => {
+            const query = db.collection('scores').orderBy('team').orderBy('points', 'desc');
+
+            expect(ids(await query.get())).toEqual(['d', 'b', 'e', 'c', 'a']);
+            expect(ids(await query.startAfter('blue', 20).get())).toEqual(['e', 'c', 'a']);
+            expect(ids(await query.startAt('red', 20).get())).toEqual(['c', 'a']);
+            expect(ids(await query.endBefore('red', 20).get())).toEqual(['d', 'b', 'e']);
+        });
+
+        it('should position snapshot cursors using ordered fields and document id', async () => {
+            const query = db.collection('scores').orderBy('points');
+            const tiedDoc = await db.collection('scores').doc('b').get();
+
+            expect(ids(await query.startAfter(tiedDoc).get())).toEqual(['c', 'd', 'e']);
+            expect(ids(await query.startAt(tiedDoc).get())).toEqual(['b', 'c', 'd', 'e']);
+            expect(ids(await query.endBefore(tiedDoc).get())).toEqual(['a']);
+        });
+
+        it('should position snapshot cursors by document id when there is no orderBy', async () => {
+            const cursorDoc = await db.collection('scores').doc('c').get();
+
+            expect(ids(await db.collection('scores').startAfter(cursorDoc).get())).toEqual(['d', 'e']);
+        });
+
+        it('should reject more cursor values than orderBy clauses', () => {
+            expect(() => db.collection('scores').orderBy('points').startAt(20, 'b', 'extra')).toThrow('Too many cursor values specified');
+        });
+
+        it('should return the last documents with limitToLast', async () => {
+            const snapshot = await db.collection('scores').orderBy('points').limitToLast(2).get();
+
+            expect(ids(snapshot)).toEqual(['d', 'e']);
+        });
+
+        it('should page backwards with endBefore and limitToLast', async () => {
+            const query = db.collection('scores').orderBy('points');
+            const currentPage = await query.startAfter(20).limit(2).get();
+
+            const previousPage = await query.endBefore(currentPage.docs[0]).limitToLast(2).get();
+
+            expect(ids(currentPage)).toEqual(['d', 'e']);
+            expect(ids(previousPage)).toEqual(['b', 'c']);
+        });
+
+        it('should require an orderBy clause for limitToLast', async () => {
+            await expect(db.collection('scores').limitToLast(2).get()).rejects.toThrow('limitToLast() queries require specifying at least one orderBy() clause');
+        });
+
+        it('should apply cursors to count()', async () => {
+            const snapshot = await db.collection('scores').orderBy('points').startAt(20).endBefore(40).count().get();
+
+            expect(snapshot.data().count).toBe(3);
+        });
+    });
+
+    describe('Aggregate queries', () => {
+        beforeEach(() => {
+            db.seed('orders/o1', { customer: 'alice', amount: 20 });
+            db.seed('orders/o2', { customer: 'bob', amount: 35 });
+            db.seed('orders/o3', { customer: 'alice', amount: 45 });
+            db.seed('orders/o4', { customer: 'alice', amount: 'n/a' });
+            db.seed('orders/o5', { customer: 'alice' });
+        });
+
+        it('should compute count, sum and average in a single query', async () => {
+            const snapshot = await db
+                .collection('orders')
+                .where('customer', '==', 'alice')
+                .aggregate({
+                    orders: AggregateField.count(),
+                    total: AggregateField.sum('amount'),
+                    avg: AggregateField.average('amount'),
+                })
+                .get();
+
+            expect(snapshot.data()).toEqual({ orders: 4, total: 65, avg: 32.5 });
+        });
+
+        it('should return zero sum and null average when no values are numeric', async () => {
+            const snapshot = await db
+                .collection('orders')
+                .where('customer', '==', 'nobody')
+                .aggregate({
+                    total: AggregateField.sum('amount'),
+                    avg: AggregateField.average('amount'),
+                })
+                .get();
+
+            expect(snapshot.data()).toEqual({ total: 0, avg: null });
+        });
+
+        it('should aggregate over limited results', async () => {
+            const snapshot = await db
+                .collection('orders')
+                .orderBy('amount')
+                .limit(2)
+                .aggregate({ total: AggregateField.sum('amount') })
+                .get();
+
+            expect(snapshot.data().total).toBe(55);
+        });
+
+        it('should support nested fields and FieldPath arguments', async () => {
+            db.seed('invoices/i1', { totals: { net: 10 } });
+            db.seed('invoices/i2', { totals: { net: 15 } });
+
+            const snapshot = await db
+                .collection('invoices')
+                .aggregate({
+                    net: AggregateField.sum('totals.net'),
+                    avgNet: AggregateField.average(new FieldPath('totals', 'net')),
+                })
+                .get();
+
+            expect(snapshot.data()).toEqual({ net: 25, avgNet: 12.5 });
+        });
+    });
+
+    describe('Index enforcement', () => {
+        const indexes = {
+            indexes: [
+                {
+                    collectionGroup: 'users',
+                    queryScope: 'COLLECTION' as const,
+                    fields: [
+                        { fieldPath: 'city', order: 'ASCENDING' as const },
+                        { fieldPath: 'age', order: 'ASCENDING' as const },
+                    ],
+                },
+            ],
+            fieldOverrides: [
+                {
+                    collectionGroup: 'items',
+                    fieldPath: 'category',
+                    indexes: [{ order: 'ASCENDING' as const, queryScope: 'COLLECTION_GROUP' as const }],
+                },
+            ],
+        };
+
+        let indexedDb: StubFirestoreDatabase;
+
+        beforeEach(() => {
+            indexedDb = new StubFirestoreDatabase({ indexes });
+            indexedDb.seed('users/u1', { city: 'NYC', age: 30, name: 'Alice' });
+            indexedDb.seed('users/u2', { city: 'LA', age: 25, name: 'Bob' });
+            indexedDb.seed('lists/l1/items/i1', { category: 'a', price: 1 });
+        });
+
+        it('should allow queries served by automatic single-field indexes', async () => {
+            await expect(indexedDb.collection('users').where('age', '>', 20).get()).resolves.toBeDefined();
+            await expect(indexedDb.collection('users').orderBy('name', 'desc').get()).resolves.toBeDefined();
+            await expect(indexedDb.collection('users').where('city', '==', 'NYC').where('name', '==', 'Alice').get()).resolves.toBeDefined();
+        });
+
+        it('should allow queries matching a declared composite index', async () => {
+            const snapshot = await indexedDb.collection('users').where('city', '==', 'NYC').where('age', '>', 20).get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['u1']);
+        });
+
+        it('should reject queries needing an undeclared composite index with the definition to add', async () => {
+            const query = indexedDb.collection('users').where('city', '==', 'NYC').orderBy('name', 'desc');
+
+            await expect(query.get()).rejects.toThrow('FAILED_PRECONDITION: The query requires an index');
+            await expect(query.get()).rejects.toThrow('"fieldPath": "name",\n      "order": "DESCENDING"');
+            await expect(query.count().get()).rejects.toThrow('FAILED_PRECONDITION');
+        });
+
+        it('should check every branch of an OR query', async () => {
+            const query = indexedDb
+                .collection('users')
+                .where(Filter.or(Filter.where('city', '==', 'NYC'), Filter.and(Filter.where('name', '==', 'Bob'), Filter.where('age', '<', 30))));
+
+            await expect(query.get()).rejects.toThrow('"fieldPath": "name"');
+        });
+
+        it('should require collection group single-field indexes from field overrides', async () => {
+            const allowed = await indexedDb.collectionGroup('items').where('category', '==', 'a').get();
+
+            expect(allowed.size).toBe(1);
+            await expect(indexedDb.collectionGroup('items').where('price', '>', 0).get()).rejects.toThrow('"fieldOverrides"');
+        });
+
+        it('should report missing indexes to query listeners', async () => {
+            const errors: Error[] = [];
+            const unsubscribe = indexedDb
+                .collection('users')
+                .where('city', '==', 'NYC')
+                .orderBy('name')
+                .onSnapshot(() => {}, (error) => errors.push(error));
+
+            await waitForUpdates();
+            unsubscribe();
+
+            expect(errors).toHaveLength(1);
+            expect(errors[0].message).toContain('FAILED_PRECONDITION');
+        });
+
+        it('should execute any query when no index definitions are provided', async () => {
+            db.seed('users/u1', { city: 'NYC', name: 'Alice' });
+
+            const snapshot = await db.collection('users').where('city', '==', 'NYC').orderBy('name', 'desc').get();
+
+            expect(snapshot.size).toBe(1);
+        });
+    });
+
+    describe('Query validation', () => {
+        it('should allow ordering by a field other than the inequality field', async () => {
+            db.seed('users/u1', { name: 'Carol', age: 30 });
+            db.seed('users/u2', { name: 'Alice', age: 40 });
+            db.seed('users/u3', { name: 'Bob', age: 10 });
+
+            const snapshot = await db.collection('users').where('age', '>', 20).orderBy('name').get();
+            const orSnapshot = await db.collection('users').where(Filter.or(Filter.where('age', '<', 20), Filter.where('age', '>', 35))).orderBy('name').get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['u2', 'u1']);
+            expect(orSnapshot.docs.map((doc) => doc.id)).toEqual(['u2', 'u3']);
+        });
+
+        it('should limit disjunctive filters to 30 values', () => {
+            const values = Array.from({ length: 31 }, (_, index) => index);
+
+            expect(() => db.collection('users').where('age', 'in', values.slice(0, 30))).not.toThrow();
+            expect(() => db.collection('users').where('age', 'in', values)).toThrow("Invalid Query. 'in' filters support a maximum of 30 elements in the value array.");
+            expect(() => db.collection('users').where('tags', 'array-contains-any', values)).toThrow("'array-contains-any' filters support a maximum of 30 elements");
+        });
+
+        it('should require non-empty arrays for in, not-in and array-contains-any', () => {
+            expect(() => db.collection('users').where('age', 'in', [])).toThrow("Invalid Query. A non-empty array is required for 'in' filters.");
+            expect(() => db.collection('users').where('age', 'not-in', 5)).toThrow("A non-empty array is required for 'not-in' filters.");
+        });
+
+        it('should reject combining not-in with !=', () => {
+            expect(() => db.collection('users').where('age', '!=', 1).where('city', 'not-in', ['LA'])).toThrow("Invalid query. You cannot use 'not-in' filters with '!=' filters.");
+        });
+
+        it('should reject multiple array-contains filters', () => {
+            expect(() => db.collection('users').where('tags', 'array-contains', 'a').where('roles', 'array-contains', 'admin')).toThrow(
+                "Invalid query. You cannot use more than one 'array-contains' filter.",
+            );
+        });
+
+        it('should validate filters nested in composite filters', () => {
+            const bothTags = Filter.and(Filter.where('tags', 'array-contains', 'a'), Filter.where('tags', 'array-contains', 'b'));
+
+            expect(() => db.collection('users').where(Filter.or(bothTags, Filter.where('age', '==', 1)))).toThrow(
+                "You cannot use more than one 'array-contains' filter.",
+            );
+            expect(() => db.collection('users').where(Filter.or(Filter.where('age', '==', 1), Filter.where('age', '>', NaN)))).toThrow(
+                "You can only perform '==' and '!=' comparisons on NaN.",
+            );
+        });
+
+        it('should allow one array-contains filter in each branch of an OR', async () => {
+            db.seed('docs/d1', { sharedWith: ['alice'], editors: [] });
+            db.seed('docs/d2', { sharedWith: [], editors: ['alice'] });
+            db.seed('docs/d3', { sharedWith: ['bob'], editors: ['bob'] });
+
+            const snapshot = await db.collection('docs')
+                .where(Filter.or(Filter.where('sharedWith', 'array-contains', 'alice'), Filter.where('editors', 'array-contains', 'alice')))
+                .get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['d1', 'd2']);
+        });
+
+        it('should reject zero, negative and fractional limits', () => {
+            expect(() => db.collection('users').limit(0)).toThrow('Invalid Query. Query limit (0) is invalid. Limit must be positive.');
+            expect(() => db.collection('users').limit(-1)).toThrow('Query limit (-1) is invalid');
+            expect(() => db.collection('users').orderBy('age').limitToLast(0)).toThrow('Query limit (0) is invalid');
+            expect(() => db.collection('users').limit(1.5)).toThrow('Value for argument "limit" is not a valid integer.');
+        });
+
+        it('should reject orderBy and where after a cursor', () => {
+            const query = db.collection('users').orderBy('age').startAfter(10);
+
+            expect(() => query.orderBy('name')).toThrow('Cannot specify an orderBy() constraint after calling startAt(), startAfter(), endBefore() or endAt().');
+            expect(() => query.where('city', '==', 'NYC')).toThrow('Cannot specify a where() filter after calling startAt(), startAfter(), endBefore() or endAt().');
+        });
+
+        it('should only allow equality comparisons on null and NaN', () => {
+            expect(() => db.collection('users').where('age', '>', null)).toThrow("Invalid query. You can only perform '==' and '!=' comparisons on Null.");
+            expect(() => db.collection('users').where('age', '<', NaN)).toThrow("Invalid query. You can only perform '==' and '!=' comparisons on NaN.");
+            expect(() => db.collection('users').where('age', '==', null)).not.toThrow();
+        });
+    });
+
     describe('Transaction operations', () => {
         it('should perform transactional reads and writes', async () => {
             const docRef = db.collection('counters').doc('counter-1');
             await docRef.set({ count: 0 });
 
-            await db.runTransaction(async (transaction) => {
-                const snapshot = await transaction.get(docRef);
-                const currentCount = snapshot.data()?.count || 0;
+            await db.runTransaction(async (transaction) => {
+                const snapshot = await transaction.get(docRef);
+                const currentCount = snapshot.data()?.count || 0;
+
+                transaction.update(docRef, { count: currentCount + 1 });
+            });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toEqual({ count: 1 });
+        });
+
+        it('should rollback on transaction error', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice', balance: 100 });
+
+            try {
+                await db.runTransaction(async (transaction) => {
+                    transaction.update(docRef, { balance: 150 });
+                    throw new Error('Transaction failed');
+                });
+            } catch (error) {
+                //
+            }
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()?.balance).toBe(100);
+        });
+
+        it('should roll back earlier writes when a later transaction write fails', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice', balance: 100 });
+
+            await expect(db.runTransaction(async (transaction) => {
+                const snapshot = await transaction.get(docRef);
+                transaction.update(docRef, { balance: snapshot.data()!.balance - 50 });
+                transaction.set(db.collection('users').doc('user-2'), { name: 'Bob', balance: 50 });
+                transaction.create(docRef, { name: 'Alice' });
+            }))
+                .rejects
+                .toThrow('already exists');
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice', balance: 100 });
+            expect((await db.collection('users').doc('user-2').get()).exists).toBe(false);
+        });
+
+        it('should handle query in transaction', async () => {
+            await db.collection('users').doc('user-1').set({ name: 'Alice', age: 25 });
+            await db.collection('users').doc('user-2').set({ name: 'Bob', age: 30 });
+
+            const result = await db.runTransaction(async (transaction) => {
+                const query = db.collection('users').where('age', '>', 20);
+                const querySnapshot = await transaction.get(query);
+
+                return querySnapshot.size;
+            });
+
+            expect(result).toBe(2);
+        });
+    });
+
+    describe('Transaction retries', () => {
+        it('should retry the update function when a read document is modified before commit', async () => {
+            const docRef = db.collection('counters').doc('counter-1');
+            await docRef.set({ count: 0 });
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                const snapshot = await transaction.get(docRef);
+                if (attempts === 1) {
+                    await docRef.set({ count: 10 });
+                }
+                transaction.update(docRef, { count: snapshot.data()!.count + 1 });
+            });
+
+            expect(attempts).toBe(2);
+            expect((await docRef.get()).data()).toEqual({ count: 11 });
+        });
+
+        it('should retry when a document read through a query is modified before commit', async () => {
+            await db.collection('orders').doc('order-1').set({ status: 'open', total: 10 });
+            await db.collection('orders').doc('order-2').set({ status: 'open', total: 20 });
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                const snapshot = await transaction.get(db.collection('orders').where('status', '==', 'open'));
+                if (attempts === 1) {
+                    await db.collection('orders').doc('order-2').update({ total: 25 });
+                }
+                const total = snapshot.docs.reduce((sum, doc) => sum + doc.data().total, 0);
+                transaction.set(db.collection('totals').doc('open'), { total });
+            });
+
+            expect(attempts).toBe(2);
+            expect((await db.collection('totals').doc('open').get()).data()).toEqual({ total: 35 });
+        });
+
+        it('should retry when a read document is deleted and recreated with the same data', async () => {
+            const docRef = db.collection('counters').doc('counter-1');
+            await docRef.set({ count: 0 });
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                const snapshot = await transaction.get(docRef);
+                if (attempts === 1) {
+                    await docRef.delete();
+                    await docRef.set({ count: 0 });
+                }
+                transaction.update(docRef, { count: snapshot.data()!.count + 1 });
+            });
+
+            expect(attempts).toBe(2);
+        });
+
+        it('should retry commits aborted by injected contention', async () => {
+            const docRef = db.collection('counters').doc('counter-1');
+            await docRef.set({ count: 0 });
+            db.injectTransactionContention('counters/{counterId}', 2);
+
+            let attempts = 0;
+            const result = await db.runTransaction(async (transaction) => {
+                attempts++;
+                const snapshot = await transaction.get(docRef);
+                transaction.update(docRef, { count: snapshot.data()!.count + 1 });
+                return 'done';
+            });
+
+            expect(result).toBe('done');
+            expect(attempts).toBe(3);
+            expect((await docRef.get()).data()).toEqual({ count: 1 });
+        });
+
+        it('should only inject contention into transactions touching matching paths', async () => {
+            await db.collection('counters').doc('counter-1').set({ count: 0 });
+            db.injectTransactionContention('orders/*');
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                transaction.set(db.collection('counters').doc('counter-1'), { count: 1 });
+            });
+
+            expect(attempts).toBe(1);
+        });
+
+        it('should throw ABORTED once maxAttempts is exhausted', async () => {
+            const docRef = db.collection('counters').doc('counter-1');
+            await docRef.set({ count: 0 });
+            db.injectTransactionContention('counters/counter-1', 10);
+
+            let attempts = 0;
+            await expect(db.runTransaction(async (transaction) => {
+                attempts++;
+                transaction.update(docRef, { count: 1 });
+            }, { maxAttempts: 3 }))
+                .rejects
+                .toThrow('10 ABORTED');
+
+            expect(attempts).toBe(3);
+            expect((await docRef.get()).data()).toEqual({ count: 0 });
+        });
+
+        it('should default to five attempts', async () => {
+            db.injectTransactionContention('counters/counter-1', 10);
+
+            let attempts = 0;
+            await expect(db.runTransaction(async (transaction) => {
+                attempts++;
+                transaction.set(db.collection('counters').doc('counter-1'), { count: 1 });
+            }))
+                .rejects
+                .toThrow('ABORTED');
+
+            expect(attempts).toBe(5);
+        });
+
+        it('should not retry errors thrown by the update function', async () => {
+            let attempts = 0;
+            await expect(db.runTransaction(async () => {
+                attempts++;
+                throw new Error('boom');
+            }))
+                .rejects
+                .toThrow('boom');
+
+            expect(attempts).toBe(1);
+        });
+
+        it('should stop injecting contention once removed', async () => {
+            const remove = db.injectTransactionContention('counters/counter-1', 10);
+            remove();
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                transaction.set(db.collection('counters').doc('counter-1'), { count: 1 });
+            });
+
+            expect(attempts).toBe(1);
+        });
+
+        it('should reject invalid maxAttempts', async () => {
+            await expect(db.runTransaction(async () => undefined, { maxAttempts: 0 }))
+                .rejects
+                .toThrow('must be within [1, Infinity] inclusive, but was: 0');
+        });
+    });
+
+    describe('Transaction read and write rules', () => {
+        it('should reject reads after writes', async () => {
+            const docRef = db.collection('counters').doc('counter-1');
+
+            await expect(db.runTransaction(async (transaction) => {
+                transaction.set(docRef, { count: 1 });
+                await transaction.get(docRef);
+            }))
+                .rejects
+                .toThrow('Firestore transactions require all reads to be executed before all writes.');
+
+            await expect(db.runTransaction(async (transaction) => {
+                transaction.delete(docRef);
+                await transaction.get(db.collection('counters'));
+            }))
+                .rejects
+                .toThrow('require all reads to be executed before all writes');
+
+            expect((await docRef.get()).exists).toBe(false);
+        });
+
+        it('should allow reads in a read-only transaction', async () => {
+            await db.collection('users').doc('user-1').set({ name: 'Alice' });
+
+            const name = await db.runTransaction(async (transaction) => {
+                const snapshot = await transaction.get(db.collection('users').doc('user-1'));
+                return snapshot.data()?.name;
+            }, { readOnly: true });
+
+            expect(name).toBe('Alice');
+        });
+
+        it('should reject writes in a read-only transaction', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            for (const write of [
+                (transaction: ITransaction) => transaction.set(docRef, { name: 'Alice' }),
+                (transaction: ITransaction) => transaction.create(docRef, { name: 'Alice' }),
+                (transaction: ITransaction) => transaction.update(docRef, { name: 'Alice' }),
+                (transaction: ITransaction) => transaction.delete(docRef),
+            ]) {
+                await expect(db.runTransaction(async (transaction) => {
+                    write(transaction);
+                }, { readOnly: true }))
+                    .rejects
+                    .toThrow('Firestore read-only transactions cannot execute writes.');
+            }
+
+            expect((await docRef.get()).exists).toBe(false);
+        });
+
+        it('should not retry read-only transactions', async () => {
+            db.injectTransactionContention('users/user-1', 10);
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                await transaction.get(db.collection('users').doc('user-1'));
+            }, { readOnly: true });
+
+            expect(attempts).toBe(1);
+        });
+
+        it('should reject an invalid readTime', async () => {
+            await expect(db.runTransaction(async () => undefined, { readOnly: true, readTime: new Date() as any }))
+                .rejects
+                .toThrow('Value for argument "transactionOptions.readTime" is not a valid Timestamp.');
+        });
+
+        it('should reject point-in-time reads as unimplemented rather than return the latest data', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const readTime = Timestamp.now();
+            await docRef.set({ name: 'Bob' });
+
+            let called = false;
+            const error = await db.runTransaction(async (transaction) => {
+                called = true;
+                return (await transaction.get(docRef)).data();
+            }, { readOnly: true, readTime }).catch((caught) => caught);
+
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(12);
+            expect(called).toBe(false);
+        });
+    });
+
+    describe('Batch operations', () => {
+        it('should batch multiple writes', async () => {
+            const batch = db.batch();
+
+            const doc1 = db.collection('users').doc('user-1');
+            const doc2 = db.collection('users').doc('user-2');
+            const doc3 = db.collection('users').doc('user-3');
+
+            await doc3.set({ name: 'Chuck' });
+
+            batch.set(doc1, { name: 'Alice' });
+            batch.set(doc2, { name: 'Bob' });
+            batch.update(doc3, { name: 'Charlie' });
+
+            await batch.commit();
+
+            const snapshot1 = await doc1.get();
+            const snapshot2 = await doc2.get();
+            const snapshot3 = await doc3.get();
+
+            expect(snapshot1.exists).toBe(true);
+            expect(snapshot2.exists).toBe(true);
+            expect(snapshot3.data()).toEqual({ name: 'Charlie' });
+        });
+
+        it('should apply no writes when any operation fails', async () => {
+            const doc1 = db.collection('users').doc('user-1');
+            const doc2 = db.collection('users').doc('user-2');
+            await doc1.set({ name: 'Alice', visits: 1 });
+
+            const batch = db.batch();
+            batch.update(doc1, { visits: FieldValue.increment(1) });
+            batch.set(doc2, { name: 'Bob' });
+            batch.update(db.collection('users').doc('missing'), { name: 'Charlie' });
+
+            await expect(batch.commit()).rejects.toThrow('5 NOT_FOUND: No document to update: users/missing');
+
+            expect((await doc1.get()).data()).toEqual({ name: 'Alice', visits: 1 });
+            expect((await doc2.get()).exists).toBe(false);
+        });
+
+        it('should let later operations see earlier ones in the same batch', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            const batch = db.batch();
+            batch.set(docRef, { name: 'Alice' });
+            batch.update(docRef, { age: 30 });
+            await batch.commit();
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice', age: 30 });
+        });
+
+        it('should not notify listeners or triggers for a failed batch', async () => {
+            const events: string[] = [];
+            db.registerTrigger('users/{userId}', {
+                onCreate: async (change) => {
+                    events.push(change.params.userId);
+                },
+            });
+
+            const documentSnapshots: boolean[] = [];
+            const querySizes: number[] = [];
+            db.collection('users').doc('user-1').onSnapshot((snapshot) => documentSnapshots.push(snapshot.exists));
+            db.collection('users').onSnapshot((snapshot) => querySizes.push(snapshot.size));
+            await waitForUpdates();
+
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-1'), { name: 'Alice' });
+            batch.update(db.collection('users').doc('missing'), { name: 'Bob' });
+            await expect(batch.commit()).rejects.toThrow();
+            await waitForUpdates();
+
+            expect(events).toEqual([]);
+            expect(documentSnapshots).toEqual([false]);
+            expect(querySizes).toEqual([0]);
+            expect(db.getAllDocuments().size).toBe(0);
+        });
+
+        it('should allow several writes to the same document, applied in order', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            const batch = db.batch();
+            batch.create(docRef, { name: 'Alice', visits: 1 });
+            batch.update(docRef, { visits: FieldValue.increment(2) });
+            batch.set(docRef, { city: 'NYC' }, { merge: true });
+            await batch.commit();
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice', visits: 3, city: 'NYC' });
+        });
+
+        it('should store all writes of a commit in one step', async () => {
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-1'), { name: 'Alice' });
+            batch.set(db.collection('users').doc('user-2'), { name: 'Bob' });
+
+            const commit = batch.commit();
+            const sizeDuringCommit = db.getAllDocuments().size;
+            await commit;
+
+            expect(sizeDuringCommit).toBe(2);
+        });
+
+        it('should create documents that do not exist', async () => {
+            const batch = db.batch();
+            batch.create(db.collection('users').doc('user-1'), { name: 'Alice' });
+            await batch.commit();
+
+            expect((await db.collection('users').doc('user-1').get()).data()).toEqual({ name: 'Alice' });
+        });
+
+        it('should fail the whole batch when a created document already exists', async () => {
+            await db.collection('users').doc('user-1').set({ name: 'Alice' });
+
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-2'), { name: 'Bob' });
+            batch.create(db.collection('users').doc('user-1'), { name: 'Impostor' });
+
+            await expect(batch.commit()).rejects.toThrow('6 ALREADY_EXISTS: Document already exists: users/user-1');
+            expect((await db.collection('users').doc('user-1').get()).data()).toEqual({ name: 'Alice' });
+            expect((await db.collection('users').doc('user-2').get()).exists).toBe(false);
+        });
+
+        it('should reject batches with more than 500 writes', async () => {
+            const batch = db.batch();
+            for (let i = 0; i <= 500; i++) {
+                batch.set(db.collection('items').doc(`item-${i}`), { i });
+            }
+
+            await expect(batch.commit()).rejects.toThrow('maximum 500 writes allowed per request');
+            expect(db.getAllDocuments().size).toBe(0);
+        });
+
+        it('should accept exactly 500 writes', async () => {
+            const batch = db.batch();
+            for (let i = 0; i < 500; i++) {
+                batch.set(db.collection('items').doc(`item-${i}`), { i });
+            }
+
+            await batch.commit();
+            expect(db.getAllDocuments().size).toBe(500);
+        });
+
+        it('should reject using a batch after it has been committed', async () => {
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-1'), { name: 'Alice' });
+            await batch.commit();
+
+            expect(() => batch.set(db.collection('users').doc('user-2'), { name: 'Bob' })).toThrow('Cannot modify a WriteBatch that has been committed.');
+            expect(() => batch.create(db.collection('users').doc('user-2'), { name: 'Bob' })).toThrow('Cannot modify a WriteBatch that has been committed.');
+            await expect(batch.commit()).rejects.toThrow('Cannot modify a WriteBatch that has been committed.');
+        });
+    });
+
+    describe('BulkWriter', () => {
+        it('should apply enqueued writes when flushed', async () => {
+            db.seed('users/user-2', { name: 'Bob' });
+            const results: string[] = [];
+            const writer = db.bulkWriter();
+            writer.onWriteResult((documentRef) => results.push(documentRef.path));
+
+            const created = writer.create(db.doc('users/user-1'), { name: 'Alice' });
+            writer.update(db.doc('users/user-2'), { name: 'Robert' });
+            writer.delete(db.doc('users/user-3'));
+            expect(db.getAllDocuments().has('users/user-1')).toBe(false);
+
+            await writer.flush();
+
+            expect((await created).writeTime).toBeInstanceOf(Timestamp);
+            expect(results).toEqual(['users/user-1', 'users/user-2', 'users/user-3']);
+            expect(db.getAllDocuments()).toEqual(new Map([['users/user-1', { name: 'Alice' }], ['users/user-2', { name: 'Robert' }]]));
+        });
+
+        it('should apply writes independently', async () => {
+            db.seed('users/user-1', { name: 'Alice' });
+            const writer = db.bulkWriter();
+
+            const failed = writer.create(db.doc('users/user-1'), { name: 'Duplicate' });
+            const succeeded = writer.set(db.doc('users/user-2'), { name: 'Bob' });
+            await writer.close();
+
+            await expect(failed).rejects.toMatchObject({ code: 6, operationType: 'create', failedAttempts: 1 });
+            await expect(succeeded).resolves.toBeDefined();
+            expect((await db.doc('users/user-2').get()).data()).toEqual({ name: 'Bob' });
+            expect((await db.doc('users/user-1').get()).data()).toEqual({ name: 'Alice' });
+        });
+
+        it('should apply repeated writes to the same document in order', async () => {
+            const writer = db.bulkWriter();
+            writer.set(db.doc('counters/c1'), { count: 1 });
+            writer.update(db.doc('counters/c1'), { count: FieldValue.increment(1) });
+            await writer.close();
+
+            expect((await db.doc('counters/c1').get()).data()).toEqual({ count: 2 });
+        });
+
+        it('should send writes without waiting for flush()', async () => {
+            const writer = db.bulkWriter();
+
+            const result = await writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            const results = await Promise.all(Array.from({ length: 25 }, (_, index) => writer.create(db.doc(`users/bulk-${index}`), { index })));
+
+            expect(result.writeTime).toBeInstanceOf(Timestamp);
+            expect(results).toHaveLength(25);
+            expect(db.getAllDocuments().size).toBe(26);
+            await writer.close();
+        });
+
+        it('should retry injected retryable failures by default', async () => {
+            db.injectBulkWriterFailure('users/{userId}', 2);
+            const writer = db.bulkWriter();
+
+            const result = writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            await writer.close();
+
+            await expect(result).resolves.toBeDefined();
+            expect((await db.doc('users/user-1').get()).exists).toBe(true);
+        });
+
+        it('should pass failures to onWriteError and reject writes it does not retry', async () => {
+            db.injectBulkWriterFailure('users/*', 3, 8);
+            const errors: Array<{ code: number; failedAttempts: number; path: string; }> = [];
+            const writer = db.bulkWriter();
+            writer.onWriteError((error) => {
+                errors.push({ code: error.code, failedAttempts: error.failedAttempts, path: error.documentRef.path });
+                return error.failedAttempts < 2;
+            });
+
+            const result = writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            await writer.flush();
+
+            await expect(result).rejects.toMatchObject({ code: 8, operationType: 'set', failedAttempts: 2 });
+            expect(errors).toEqual([
+                { code: 8, failedAttempts: 1, path: 'users/user-1' },
+                { code: 8, failedAttempts: 2, path: 'users/user-1' },
+            ]);
+
+            const retried = writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            await writer.flush();
+            await expect(retried).resolves.toBeDefined();
+        });
+
+        it('should not retry non-retryable errors by default', async () => {
+            db.injectBulkWriterFailure('users/user-1', 1, 7);
+            const writer = db.bulkWriter();
+
+            const result = writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            await writer.close();
+
+            await expect(result).rejects.toMatchObject({ code: 7, failedAttempts: 1 });
+            expect((await db.doc('users/user-1').get()).exists).toBe(false);
+        });
+
+        it('should fire triggers for each write', async () => {
+            const events: string[] = [];
+            db.registerTrigger('users/{userId}', {
+                onCreate: async (change) => {
+                    events.push(change.params.userId);
+                },
+            });
+
+            const writer = db.bulkWriter();
+            writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            writer.create(db.doc('users/user-1'), { name: 'Duplicate' }).catch(() => undefined);
+            writer.set(db.doc('users/user-2'), { name: 'Bob' });
+            await writer.close();
+
+            expect(events).toEqual(['user-1', 'user-2']);
+        });
+
+        it('should reject writes after close', async () => {
+            const writer = db.bulkWriter();
+            await writer.close();
+
+            expect(() => writer.set(db.doc('users/user-1'), { name: 'Alice' })).toThrow('BulkWriter has already been closed.');
+            expect(() => writer.flush()).toThrow('BulkWriter has already been closed.');
+        });
+    });
+
+    describe('Recursive delete', () => {
+        beforeEach(() => {
+            db.seed('users/user-1', { name: 'Alice' });
+            db.seed('users/user-1/orders/order-1', { total: 10 });
+            db.seed('users/user-1/orders/order-1/items/item-1', { sku: 'A' });
+            db.seed('users/user-10', { name: 'Other' });
+            db.seed('users/user-2/orders/order-2', { total: 20 });
+            db.seed('products/product-1', { name: 'Widget' });
+        });
+
+        it('should delete a document and all of its descendants', async () => {
+            await db.recursiveDelete(db.doc('users/user-1'));
+
+            expect(Array.from(db.getAllDocuments().keys()).sort()).toEqual(['products/product-1', 'users/user-10', 'users/user-2/orders/order-2']);
+        });
+
+        it('should delete every document in a collection and its subcollections', async () => {
+            await db.recursiveDelete(db.collection('users'));
+
+            expect(Array.from(db.getAllDocuments().keys())).toEqual(['products/product-1']);
+        });
+
+        it('should fire delete triggers and notify listeners for each document', async () => {
+            const deleted: string[] = [];
+            db.registerTrigger('users/{userId}/orders/{orderId}', {
+                onDelete: (change) => {
+                    deleted.push(change.params.orderId);
+                },
+            });
+            const sizes: number[] = [];
+            const unsubscribe = db.collection('users/user-1/orders').onSnapshot((snapshot) => sizes.push(snapshot.size));
+            await waitForUpdates();
+
+            await db.recursiveDelete(db.doc('users/user-1'));
+            await waitForUpdates();
+
+            expect(deleted).toEqual(['order-1']);
+            expect(sizes).toEqual([1, 0]);
+            unsubscribe();
+        });
+
+        it('should delete through a supplied BulkWriter', async () => {
+            const writer = db.bulkWriter();
+            const paths: string[] = [];
+            writer.onWriteResult((documentRef) => paths.push(documentRef.path));
+
+            await db.recursiveDelete(db.doc('users/user-1'), writer);
+
+            expect(paths).toEqual(['users/user-1/orders/order-1', 'users/user-1/orders/order-1/items/item-1', 'users/user-1']);
+        });
+
+        it('should reject when deletes fail after retries', async () => {
+            db.injectBulkWriterFailure('users/user-1/orders/*', 1, 7);
+
+            await expect(db.recursiveDelete(db.doc('users/user-1'))).rejects.toMatchObject({
+                code: 7,
+                message: expect.stringContaining('1 delete failed. The last delete failed with:'),
+            });
+            expect(db.getAllDocuments().has('users/user-1/orders/order-1')).toBe(true);
+            expect(db.getAllDocuments().has('users/user-1')).toBe(false);
+        });
+    });
+
+    describe('Document metadata', () => {
+        it('should set createTime and updateTime when a document is created', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.createTime).toBeInstanceOf(Timestamp);
+            expect(snapshot.updateTime!.isEqual(snapshot.createTime!)).toBe(true);
+            expect(snapshot.readTime.toMillis()).toBeGreaterThanOrEqual(snapshot.updateTime!.toMillis());
+        });
+
+        it('should keep createTime and advance updateTime on every write', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const created = await docRef.get();
+
+            await docRef.update({ name: 'Alice Smith' });
+            const updated = await docRef.get();
+            await docRef.set({ age: 30 }, { merge: true });
+            const merged = await docRef.get();
+
+            expect(updated.createTime!.isEqual(created.createTime!)).toBe(true);
+            expect(merged.createTime!.isEqual(created.createTime!)).toBe(true);
+            expect(updated.updateTime!.valueOf() > created.updateTime!.valueOf()).toBe(true);
+            expect(merged.updateTime!.valueOf() > updated.updateTime!.valueOf()).toBe(true);
+        });
+
+        it('should keep updateTime when a write leaves the data unchanged', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice', joined: Timestamp.fromMillis(1_000) });
+            const original = await docRef.get();
+
+            await docRef.set({ name: 'Alice', joined: Timestamp.fromMillis(1_000) });
+            await docRef.update({ name: 'Alice' });
+            await docRef.set({ name: 'Alice' }, { merge: true });
+            const rewritten = await docRef.get();
+
+            expect(rewritten.updateTime!.isEqual(original.updateTime!)).toBe(true);
+            await docRef.update({ name: 'Alice Smith' }, { lastUpdateTime: original.updateTime });
+            expect((await docRef.get()).data()!.name).toBe('Alice Smith');
+        });
+
+        it('should have no createTime or updateTime for missing documents', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            await docRef.delete();
+
+            const snapshot = await docRef.get();
+            expect(snapshot.createTime).toBeUndefined();
+            expect(snapshot.updateTime).toBeUndefined();
+            expect(snapshot.readTime).toBeInstanceOf(Timestamp);
+        });
+
+        it('should reset createTime when a deleted document is recreated', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const first = await docRef.get();
+            await docRef.delete();
+            await docRef.set({ name: 'Alice' });
+
+            const second = await docRef.get();
+            expect(second.createTime!.valueOf() > first.createTime!.valueOf()).toBe(true);
+        });
+
+        it('should give every write in a batch or transaction the same updateTime', async () => {
+            await db.collection('users').doc('user-3').set({ name: 'Charlie' });
+
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-1'), { name: 'Alice' });
+            batch.set(db.collection('users').doc('user-2'), { name: 'Bob' });
+            batch.update(db.collection('users').doc('user-3'), { name: 'Chuck' });
+            await batch.commit();
+
+            const batchTimes = (await db.collection('users').get()).docs.map((doc) => doc.updateTime!.valueOf());
+            expect(new Set(batchTimes).size).toBe(1);
+
+            await db.runTransaction(async (transaction) => {
+                transaction.update(db.collection('users').doc('user-1'), { age: 1 });
+                transaction.update(db.collection('users').doc('user-2'), { age: 2 });
+            });
+
+            const user1 = await db.collection('users').doc('user-1').get();
+            const user2 = await db.collection('users').doc('user-2').get();
+            expect(user1.updateTime!.isEqual(user2.updateTime!)).toBe(true);
+            expect(user1.updateTime!.valueOf() > batchTimes[0]).toBe(true);
+        });
+
+        it('should expose readTime on query snapshots and their documents', async () => {
+            await db.collection('users').doc('user-1').set({ name: 'Alice' });
+
+            const snapshot = await db.collection('users').get();
+            expect(snapshot.readTime).toBeInstanceOf(Timestamp);
+            expect(snapshot.docs[0].readTime.isEqual(snapshot.readTime)).toBe(true);
+            expect(snapshot.docs[0].updateTime).toBeInstanceOf(Timestamp);
+        });
+
+        it('should set metadata on seeded documents', async () => {
+            db.seed('users/user-1', { name: 'Alice' });
+
+            const snapshot = await db.collection('users').doc('user-1').get();
+            expect(snapshot.createTime).toBeInstanceOf(Timestamp);
+            expect(snapshot.updateTime).toBeInstanceOf(Timestamp);
+        });
+    });
+
+    describe('Document create', () => {
+        it('should create a document that does not exist', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.create({ name: 'Alice' });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toEqual({ name: 'Alice' });
+        });
+
+        it('should fail with ALREADY_EXISTS when the document exists', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+
+            const error = await docRef.create({ name: 'Impostor' }).catch((caught) => caught);
+            expect(error.message).toBe('6 ALREADY_EXISTS: Document already exists: users/user-1');
+            expect(error.code).toBe(6);
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice' });
+        });
+
+        it('should allow creating a document again after it is deleted', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.create({ name: 'Alice' });
+            await docRef.delete();
+            await docRef.create({ name: 'Alice again' });
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice again' });
+        });
+
+        it('should fire onCreate triggers and notify listeners', async () => {
+            const created: string[] = [];
+            db.registerTrigger('users/{userId}', {
+                onCreate: (change) => {
+                    created.push(change.params.userId);
+                },
+            });
+            const seen: boolean[] = [];
+            const unsubscribe = db.collection('users').doc('user-1').onSnapshot((snapshot) => seen.push(snapshot.exists));
+
+            await db.collection('users').doc('user-1').create({ name: 'Alice' });
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(created).toEqual(['user-1']);
+            expect(seen).toContain(true);
+            unsubscribe();
+        });
+    });
+
+    describe('Write preconditions', () => {
+        it('should update when lastUpdateTime matches', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const snapshot = await docRef.get();
+
+            await docRef.update({ name: 'Alice Smith' }, { lastUpdateTime: snapshot.updateTime });
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice Smith' });
+        });
+
+        it('should fail with FAILED_PRECONDITION when the document changed since it was read', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const snapshot = await docRef.get();
+            await docRef.update({ name: 'Concurrent' });
+
+            await expect(docRef.update({ name: 'Stale' }, { lastUpdateTime: snapshot.updateTime }))
+                .rejects
+                .toThrow('9 FAILED_PRECONDITION');
+            await expect(docRef.delete({ lastUpdateTime: snapshot.updateTime }))
+                .rejects
+                .toThrow('9 FAILED_PRECONDITION');
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Concurrent' });
+        });
+
+        it('should check exists preconditions on delete', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            await expect(docRef.delete({ exists: true })).rejects.toThrow('5 NOT_FOUND: No document to update: users/user-1');
+            await docRef.delete({ exists: false });
+
+            await docRef.set({ name: 'Alice' });
+            await expect(docRef.delete({ exists: false })).rejects.toThrow('6 ALREADY_EXISTS');
+            await docRef.delete({ exists: true });
+
+            expect((await docRef.get()).exists).toBe(false);
+        });
+
+        it('should reject invalid preconditions', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+
+            await expect(docRef.update({ name: 'Bob' }, { exists: false }))
+                .rejects
+                .toThrow('"exists" is not allowed to have the value false');
+            await expect(docRef.delete({ exists: true, lastUpdateTime: Timestamp.now() }))
+                .rejects
+                .toThrow('Input specifies more than one precondition.');
+            await expect(docRef.delete({ lastUpdateTime: new Date() as any }))
+                .rejects
+                .toThrow('"lastUpdateTime" is not a Firestore Timestamp.');
+        });
+
+        it('should fail the whole batch when a precondition fails', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const snapshot = await docRef.get();
+            await docRef.update({ name: 'Concurrent' });
+
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-2'), { name: 'Bob' });
+            batch.update(docRef, { name: 'Stale' }, { lastUpdateTime: snapshot.updateTime });
+
+            await expect(batch.commit()).rejects.toThrow('FAILED_PRECONDITION');
+            expect((await db.collection('users').doc('user-2').get()).exists).toBe(false);
+        });
+
+        it('should evaluate preconditions in transactions', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+
+            await expect(db.runTransaction(async (transaction) => {
+                transaction.delete(db.collection('users').doc('missing'), { exists: true });
+                transaction.update(docRef, { name: 'Bob' });
+            }))
+                .rejects
+                .toThrow('NOT_FOUND');
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice' });
+        });
+    });
+
+    describe('Fault injection', () => {
+        it('should fail the next matching operations and then recover', async () => {
+            const orderRef = db.collection('orders').doc('order-1');
+            await orderRef.set({ status: 'pending' });
+            db.failNext({ op: 'update', path: 'orders/*', code: 'unavailable', times: 2 });
+
+            const error = await orderRef.update({ status: 'paid' }).catch((caught) => caught);
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(14);
+            expect(error.message).toBe('14 UNAVAILABLE: Injected update failure for orders/order-1');
+            await expect(orderRef.update({ status: 'paid' })).rejects.toThrow('14 UNAVAILABLE');
+            expect((await orderRef.get()).data()).toEqual({ status: 'pending' });
+
+            await orderRef.update({ status: 'paid' });
+            expect((await orderRef.get()).data()).toEqual({ status: 'paid' });
+        });
+
+        it('should only fail operations and paths that match', async () => {
+            db.failNext({ op: ['set', 'delete'], path: 'orders/{orderId}', code: 'permission-denied', message: 'Missing or insufficient permissions.' });
+
+            await db.collection('users').doc('user-1').set({ name: 'Alice' });
+            await db.collection('orders').doc('order-1').get();
+            await expect(db.collection('orders').doc('order-1').set({ total: 10 }))
+                .rejects
+                .toThrow('7 PERMISSION_DENIED: Missing or insufficient permissions.');
+            await db.collection('orders').doc('order-1').set({ total: 10 });
+
+            expect(db.getAllDocuments().size).toBe(2);
+        });
+
+        it('should fail document reads, queries and aggregations', async () => {
+            db.seed('orders/order-1', { total: 10 });
+            db.failNext({ op: 'get', code: 'deadline-exceeded' });
+            db.failNext({ op: 'query', path: 'orders', code: 'permission-denied', times: 3 });
+
+            await expect(db.doc('orders/order-1').get()).rejects.toThrow('4 DEADLINE_EXCEEDED: Injected get failure for orders/order-1');
+            await expect(db.collection('orders').where('total', '>', 5).get()).rejects.toThrow('7 PERMISSION_DENIED: Injected query failure for orders');
+            await expect(db.collection('orders').count().get()).rejects.toThrow('7 PERMISSION_DENIED');
+            await expect(db.runTransaction((transaction) => transaction.get(db.collection('orders')))).rejects.toThrow('7 PERMISSION_DENIED');
+
+            expect((await db.collection('orders').get()).size).toBe(1);
+        });
+
+        it('should fail batch commits as a whole', async () => {
+            db.failNext({ op: 'batch', path: 'orders/**' });
+
+            const batch = db.batch();
+            batch.set(db.doc('users/user-1'), { name: 'Alice' });
+            batch.set(db.doc('orders/order-1/items/item-1'), { sku: 'A' });
+
+            await expect(batch.commit()).rejects.toThrow('14 UNAVAILABLE: Injected batch failure for orders/order-1/items/item-1');
+            expect(db.getAllDocuments().size).toBe(0);
+        });
+
+        it('should fail commits that touch no documents when the fault has no path pattern', async () => {
+            db.failNext({ op: 'batch' });
+            db.failNext({ op: 'transaction', path: 'users/*' });
+
+            await expect(db.batch().commit()).rejects.toThrow('14 UNAVAILABLE: Injected batch failure');
+            await db.runTransaction(async () => undefined, { maxAttempts: 1 });
+
+            db.failNext({ op: 'transaction', code: 'permission-denied' });
+            await expect(db.runTransaction(async () => undefined)).rejects.toThrow('7 PERMISSION_DENIED: Injected transaction failure');
+        });
+
+        it('should retry transactions whose commit fails with a retryable code', async () => {
+            db.seed('counters/visits', { count: 1 });
+            db.failNext({ op: 'transaction', path: 'counters/*' });
+            db.failNext({ op: 'transaction', path: 'users/*', code: 'permission-denied' });
+
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                const snapshot = await transaction.get(db.doc('counters/visits'));
+                transaction.update(snapshot.ref, { count: snapshot.data()!.count + 1 });
+            });
+
+            expect(attempts).toBe(2);
+            expect((await db.doc('counters/visits').get()).data()).toEqual({ count: 2 });
+
+            attempts = 0;
+            await expect(db.runTransaction(async (transaction) => {
+                attempts++;
+                transaction.set(db.doc('users/user-1'), { name: 'Alice' });
+            }))
+                .rejects
+                .toThrow('7 PERMISSION_DENIED');
+            expect(attempts).toBe(1);
+        });
+
+        it('should fail BulkWriter writes and recursive deletes', async () => {
+            db.seed('orders/order-1', { total: 10 });
+            db.seed('orders/order-1/items/item-1', { sku: 'A' });
+            db.failNext({ op: 'bulkWriter', path: 'users/*', code: 'permission-denied' });
+            db.failNext({ op: 'delete', path: 'orders/*/items/*', code: 'permission-denied' });
+
+            const writer = db.bulkWriter();
+            const result = writer.set(db.doc('users/user-1'), { name: 'Alice' });
+            await writer.close();
+            await expect(result).rejects.toMatchObject({ code: 7, message: '7 PERMISSION_DENIED: Injected bulkWriter failure for users/user-1' });
+
+            await expect(db.recursiveDelete(db.collection('orders')))
+                .rejects
+                .toThrow('1 delete failed. The last delete failed with: 7 PERMISSION_DENIED: Injected delete failure for orders/order-1/items/item-1');
+            expect(Array.from(db.getAllDocuments().keys())).toEqual(['orders/order-1/items/item-1']);
+        });
+
+        it('should report listener failures to the error callback', async () => {
+            db.failNext({ op: 'listen', path: 'orders/order-1' });
+            db.failNext({ op: 'listen', path: 'orders', code: 'unauthenticated' });
+
+            const received: string[] = [];
+            const errors: unknown[] = [];
+            db.doc('orders/order-1').onSnapshot(() => received.push('document'), (error) => errors.push(error));
+            db.collection('orders').onSnapshot(() => received.push('query'), (error) => errors.push(error));
+            await waitForUpdates();
+            await db.doc('orders/order-1').set({ total: 10 });
+            await waitForUpdates();
+
+            expect(received).toEqual([]);
+            expect(errors.map((error) => (error as FirestoreError).code)).toEqual([14, 16]);
+        });
+
+        it('should fail active listeners and detach them', async () => {
+            const documentSnapshots: boolean[] = [];
+            const querySizes: number[] = [];
+            const errors: number[] = [];
+            db.doc('orders/order-1').onSnapshot((snapshot) => documentSnapshots.push(snapshot.exists), (error) => errors.push((error as FirestoreError).code));
+            db.collection('orders').onSnapshot((snapshot) => querySizes.push(snapshot.size), (error) => errors.push((error as FirestoreError).code));
+            await waitForUpdates();
+
+            db.failNext({ op: 'listen', path: 'orders/order-1', code: 'permission-denied' });
+            db.failNext({ op: 'listen', path: 'orders', code: 'unauthenticated' });
+            await db.doc('orders/order-1').set({ total: 10 });
+            await waitForUpdates();
+            await db.doc('orders/order-1').set({ total: 20 });
+            await waitForUpdates();
+
+            expect(documentSnapshots).toEqual([false]);
+            expect(querySizes).toEqual([0]);
+            expect(errors).toEqual([7, 16]);
+        });
+
+        it('should fail operations at random with the given probability', async () => {
+            const rolls = [0.9, 0.1, 0.6, 0.2];
+            const remove = db.failRandomly({ op: 'get', probability: 0.5, random: () => rolls.shift()! });
+            const docRef = db.doc('users/user-1');
+
+            const outcomes: boolean[] = [];
+            for (let i = 0; i < 4; i++) {
+                outcomes.push(await docRef.get().then(() => true, () => false));
+            }
+            remove();
+            await docRef.get();
+
+            expect(outcomes).toEqual([true, false, true, false]);
+            expect(() => db.failRandomly({ probability: 1.5 })).toThrow('Fault probability must be between 0 and 1, but was: 1.5');
+        });
+
+        it('should remove faults on clear()', async () => {
+            db.failNext({ times: 5 });
+            db.injectTransactionContention('users/{userId}', 5);
+            db.injectBulkWriterFailure('users/{userId}', 5);
+            db.clear();
+
+            await db.runTransaction(async (transaction) => {
+                transaction.set(db.doc('users/user-2'), { name: 'Bob' });
+            }, { maxAttempts: 1 });
+
+            await db.doc('users/user-1').set({ name: 'Alice' });
+            expect((await db.doc('users/user-1').get()).exists).toBe(true);
+        });
+    });
+
+    describe('Firestore errors', () => {
+        const catchError = (promise: Promise<unknown>) => promise.then(() => expect.fail('Expected the operation to fail'), (error) => error);
+
+        it('should reject updates to missing documents with NOT_FOUND', async () => {
+            const error = await catchError(db.collection('users').doc('missing').update({ name: 'Alice' }));
+
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(5);
+            expect(error.details).toBe('No document to update: users/missing');
+            expect(error.message).toBe('5 NOT_FOUND: No document to update: users/missing');
+        });
+
+        it('should reject creating an existing document with ALREADY_EXISTS', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.create({ name: 'Alice' });
+
+            const error = await catchError(docRef.create({ name: 'Bob' }));
+
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(6);
+            expect(error.message).toBe('6 ALREADY_EXISTS: Document already exists: users/user-1');
+        });
+
+        it('should reject failed preconditions with FAILED_PRECONDITION', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+            const snapshot = await docRef.get();
+            await docRef.update({ name: 'Concurrent' });
+
+            const error = await catchError(docRef.update({ name: 'Stale' }, { lastUpdateTime: snapshot.updateTime }));
+
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(9);
+        });
+
+        it('should reject transactions that keep conflicting with ABORTED', async () => {
+            db.injectTransactionContention('counters/{counterId}', 2);
+
+            const error = await catchError(db.runTransaction(async (transaction) => {
+                transaction.set(db.doc('counters/visits'), { count: 1 });
+            }, { maxAttempts: 2 }));
+
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(10);
+            expect(error.details).toBe('Too much contention on these documents. Please try again.');
+        });
+
+        it('should reject invalid queries with INVALID_ARGUMENT, keeping the SDK message', () => {
+            const users = db.collection('users');
+
+            expect(() => users.where('age', '>', 18).orderBy('name')).not.toThrow();
+            expect(() => users.where('tags', 'array-contains', 'a').where('roles', 'array-contains', 'b'))
+                .toThrow(expect.objectContaining({ code: 3, message: "Invalid query. You cannot use more than one 'array-contains' filter." }));
+            expect(() => users.where('age', '>', NaN)).toThrow(expect.objectContaining({ code: 3 }));
+            expect(() => users.limit(0)).toThrow(FirestoreError);
+        });
+
+        it('should reject queries missing an index with FAILED_PRECONDITION', async () => {
+            const indexedDb = new StubFirestoreDatabase({ indexes: { indexes: [], fieldOverrides: [] } });
+
+            const error = await catchError(indexedDb.collection('users').where('city', '==', 'NYC').orderBy('name').get());
+
+            expect(error).toBeInstanceOf(FirestoreError);
+            expect(error.code).toBe(9);
+            expect(error.message).toMatch(/^9 FAILED_PRECONDITION: The query requires an index/);
+        });
+
+        it('should build errors from error code names or numeric status codes', () => {
+            expect(new FirestoreError('unavailable', 'Service unavailable').message).toBe('14 UNAVAILABLE: Service unavailable');
+            expect(new FirestoreError(8, 'Quota exceeded').message).toBe('8 RESOURCE_EXHAUSTED: Quota exceeded');
+            expect(new FirestoreError('invalid-argument', 'Bad input', 'Custom message').message).toBe('Custom message');
+        });
+    });
+
+    describe('Write validation', () => {
+        class Address {
+            constructor(readonly city: string) {}
+        }
+
+        it('should reject undefined values unless ignoreUndefinedProperties is set', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            await expect(docRef.set({ name: 'Alice', profile: { email: undefined } }))
+                .rejects
+                .toThrow(
+                    'Value for argument "data" is not a valid Firestore document. Cannot use "undefined" as a Firestore value (found in field "profile.email"). If you want to ignore undefined values, enable `ignoreUndefinedProperties`.',
+                );
+            expect((await docRef.get()).exists).toBe(false);
+
+            const lenientDb = new StubFirestoreDatabase({ ignoreUndefinedProperties: true });
+            const lenientRef = lenientDb.collection('users').doc('user-1');
+            await lenientRef.set({ name: 'Alice', email: undefined, tags: ['a', undefined], profile: { email: undefined }, settings: {} });
+            await lenientRef.update({ name: 'Alice Smith', email: undefined });
+
+            expect((await lenientRef.get()).data()).toEqual({ name: 'Alice Smith', tags: ['a'], settings: {} });
+        });
+
+        it('should reject class instances and functions', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            await expect(docRef.set({ address: new Address('NYC') }))
+                .rejects
+                .toThrow('Couldn\'t serialize object of type "Address" (found in field "address"). Firestore doesn\'t support JavaScript objects with custom prototypes');
+            await expect(docRef.set(new Address('NYC') as any))
+                .rejects
+                .toThrow('Value for argument "data" is not a valid Firestore document. Couldn\'t serialize object of type "Address".');
+            await expect(docRef.set(['a'] as any)).rejects.toThrow('Input is not a plain JavaScript object.');
+            await expect(docRef.set({ callback: () => 1 })).rejects.toThrow('Cannot encode value: () => 1');
+        });
+
+        it('should accept Firestore value types', async () => {
+            const docRef = db.collection('places').doc('place-1');
+            const data = {
+                location: new GeoPoint(40.7, -74),
+                owner: db.collection('users').doc('user-1'),
+                createdAt: Timestamp.now(),
+                updatedAt: new Date(),
+                bytes: Buffer.from('abc'),
+                nested: { values: [1, 'two', null, { three: true }] },
+            };
+
+            await docRef.set(data);
+            await docRef.set({ nested: { location: new GeoPoint(1, 2) } }, { merge: true });
+
+            const stored = (await docRef.get()).data()!;
+            expect(stored.location).toBeInstanceOf(GeoPoint);
+            expect(stored.owner.path).toBe('users/user-1');
+            expect(stored.nested.location.isEqual(new GeoPoint(1, 2))).toBe(true);
+            expect(stored.nested.values).toEqual([1, 'two', null, { three: true }]);
+        });
+
+        it('should reject maps nested deeper than 20 levels', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            const nested = (depth: number): any => (depth === 0 ? 'leaf' : { child: nested(depth - 1) });
+
+            await docRef.set(nested(21));
+            await expect(docRef.set(nested(22))).rejects.toThrow('Input object is deeper than 20 levels or contains a cycle.');
+
+            const cyclic: any = { name: 'loop' };
+            cyclic.self = cyclic;
+            await expect(docRef.set(cyclic)).rejects.toThrow('Input object is deeper than 20 levels or contains a cycle.');
+        });
+
+        it('should reject empty and reserved field names', async () => {
+            const docRef = db.collection('users').doc('user-1');
+
+            await expect(docRef.set({ '': 'empty' })).rejects.toThrow('Element at index 0 should not be an empty string.');
+            await expect(docRef.set({ __name__: 'reserved' })).rejects.toThrow('3 INVALID_ARGUMENT: Field name "__name__" is reserved.');
+            await expect(docRef.set({ profile: { __meta__: true } })).rejects.toThrow('3 INVALID_ARGUMENT: Field name "__meta__" is reserved.');
+            await expect(docRef.set({ _private_: true, __half: true })).resolves.toBeUndefined();
+        });
+
+        it('should reject documents larger than 1 MiB', async () => {
+            const docRef = db.collection('files').doc('file-1');
+
+            await docRef.set({ content: 'x'.repeat(1_000_000) });
+            await expect(docRef.set({ content: 'x'.repeat(1_048_576) }))
+                .rejects
+                .toThrow('3 INVALID_ARGUMENT: Document "files/file-1" cannot be written because its size (1,048,646 bytes) exceeds the maximum allowed size of 1,048,576 bytes.');
+            await expect(docRef.update({ extra: 'x'.repeat(100_000) })).rejects.toThrow('exceeds the maximum allowed size');
+
+            expect((await docRef.get()).data()!.content).toHaveLength(1_000_000);
+        });
+
+        it('should only allow FieldValue.delete() where the SDK does', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice', profile: { email: 'alice@example.com', phone: '555' } });
+
+            await expect(docRef.set({ name: FieldValue.delete() }))
+                .rejects
+                .toThrow('FieldValue.delete() must appear at the top-level and can only be used in update() or set() with {merge:true} (found in field "name").');
+            await expect(docRef.update({ profile: { email: FieldValue.delete() } }))
+                .rejects
+                .toThrow('FieldValue.delete() must appear at the top-level and can only be used in update() or set() with {merge:true} (found in field "profile.email").');
+            await expect(docRef.update({ tags: [FieldValue.serverTimestamp()] }))
+                .rejects
+                .toThrow('FieldValue.serverTimestamp() cannot be used inside of an array (found in field "tags.`0`").');
+
+            await docRef.set({ profile: { phone: FieldValue.delete() } }, { merge: true });
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice', profile: { email: 'alice@example.com' } });
+        });
+
+        it('should validate update field maps', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice', profile: { city: 'NYC' } });
+
+            await expect(docRef.update({})).rejects.toThrow('Update() requires either a single JavaScript object or an alternating list of field/value pairs that can be followed by an optional precondition. At least one field must be updated.');
+            await expect(docRef.update({ 'profile..city': 'LA' }))
+                .rejects
+                .toThrow('Value for argument "profile..city" is not a valid field path. Paths must not contain ".." in them.');
+            await expect(docRef.update({ profile: { city: 'LA' }, 'profile.city': 'SF' }))
+                .rejects
+                .toThrow('Value for argument "dataOrField" is not a valid update map. Field "profile" was specified multiple times.');
+            await expect(docRef.update({ name: undefined }))
+                .rejects
+                .toThrow('Value for argument "dataOrField" is not a valid Firestore value. Cannot use "undefined" as a Firestore value (found in field "name").');
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice', profile: { city: 'NYC' } });
+        });
+
+        it('should throw when invalid data is added to a batch, transaction or BulkWriter', async () => {
+            const docRef = db.collection('users').doc('user-1');
+            await docRef.set({ name: 'Alice' });
+
+            expect(() => db.batch().set(docRef, { name: undefined })).toThrow('Cannot use "undefined" as a Firestore value');
+            expect(() => db.batch().update(docRef, {})).toThrow('At least one field must be updated.');
+            expect(() => db.bulkWriter().create(db.collection('users').doc('user-2'), { address: new Address('LA') })).toThrow('Couldn\'t serialize object of type "Address"');
+            await expect(db.runTransaction(async (transaction) => {
+                transaction.set(docRef, { name: 'Bob', callback: () => 1 });
+            }))
+                .rejects
+                .toThrow('Cannot encode value');
+
+            expect((await docRef.get()).data()).toEqual({ name: 'Alice' });
+        });
+
+        it('should roll back a batch when the backend rejects a document', async () => {
+            const batch = db.batch();
+            batch.set(db.collection('users').doc('user-1'), { name: 'Alice' });
+            batch.set(db.collection('users').doc('user-2'), { __id__: 'reserved' });
+
+            await expect(batch.commit()).rejects.toThrow('3 INVALID_ARGUMENT');
+            expect(db.getAllDocuments().size).toBe(0);
+        });
+
+        it('should only validate seeded data when asked to', () => {
+            db.seed('users/user-1', { name: undefined });
+            expect(db.getAllDocuments().get('users/user-1')).toEqual({ name: undefined });
+
+            const strictDb = new StubFirestoreDatabase({ validateSeedData: true });
+            expect(() => strictDb.seed('users/user-1', { name: undefined })).toThrow('Cannot use "undefined" as a Firestore value (found in field "name").');
+
+            const lenientDb = new StubFirestoreDatabase({ validateSeedData: true, ignoreUndefinedProperties: true });
+            lenientDb.seed('users/user-1', { name: 'Alice', email: undefined });
+            expect(lenientDb.getAllDocuments().get('users/user-1')).toEqual({ name: 'Alice' });
+        });
+    });
+
+    describe('Converters', () => {
+        class User {
+            constructor(readonly name: string, readonly age: number) {}
+
+            greeting(): string {
+                return `Hello, ${this.name}`;
+            }
+        }
+
+        const userConverter: FirestoreDataConverter<User> = {
+            toFirestore: (user: Partial<User>) => ({ fullName: user.name, age: user.age }),
+            fromFirestore: (snapshot) => {
+                const data = snapshot.data()!;
+                return new User(data.fullName, data.age);
+            },
+        };
+
+        it('should convert data on document reads and writes', async () => {
+            const docRef = db.collection('users').doc('user-1').withConverter(userConverter);
+            await docRef.set(new User('Alice', 30));
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toBeInstanceOf(User);
+            expect(snapshot.data()!.greeting()).toBe('Hello, Alice');
+            expect((await db.doc('users/user-1').get()).data()).toEqual({ fullName: 'Alice', age: 30 });
+            expect(snapshot.ref.path).toBe('users/user-1');
+        });
+
+        it('should pass merge options to toFirestore', async () => {
+            const calls: unknown[][] = [];
+            const converter: FirestoreDataConverter<User> = {
+                toFirestore: (...args: unknown[]) => {
+                    calls.push(args);
+                    const user = args[0] as Partial<User>;
+                    return user.age === undefined ? { fullName: user.name } : { fullName: user.name, age: user.age };
+                },
+                fromFirestore: userConverter.fromFirestore,
+            };
+            const docRef = db.collection('users').doc('user-1').withConverter(converter);
+            await docRef.set(new User('Alice', 30));
+            await docRef.set({ name: 'Alicia' }, { merge: true });
+
+            expect(calls[0]).toHaveLength(1);
+            expect(calls[1]).toEqual([{ name: 'Alicia' }, { merge: true }]);
+            expect((await docRef.get()).data()).toEqual(new User('Alicia', 30));
+        });
+
+        it('should convert create() data and leave update() data unconverted', async () => {
+            const docRef = db.collection('users').doc('user-1').withConverter(userConverter);
+            await docRef.create(new User('Alice', 30));
+            await docRef.update({ age: 31 });
+
+            expect((await db.doc('users/user-1').get()).data()).toEqual({ fullName: 'Alice', age: 31 });
+        });
+
+        it('should not call fromFirestore for missing documents', async () => {
+            const snapshot = await db.collection('users').doc('missing').withConverter(userConverter).get();
+
+            expect(snapshot.exists).toBe(false);
+            expect(snapshot.data()).toBeUndefined();
+        });
+
+        it('should convert query results and keep the converter through query builders', async () => {
+            db.seed('users/user-1', { fullName: 'Alice', age: 30 });
+            db.seed('users/user-2', { fullName: 'Bob', age: 25 });
 
-                transaction.update(docRef, { count: currentCount + 1 });
-            });
+            const users = db.collection('users').withConverter(userConverter);
+            const snapshot = await users.where('age', '>', 20).orderBy('age').get();
 
-            const snapshot = await docRef.get();
-            expect(snapshot.data()).toEqual({ count: 1 });
+            expect(snapshot.docs.map((doc) => doc.data()!.greeting())).toEqual(['Hello, Bob', 'Hello, Alice']);
+            expect(snapshot.docChanges()[0].doc.data()).toBeInstanceOf(User);
+            expect((await users.doc('user-1').get()).data()).toEqual(new User('Alice', 30));
         });
 
-        it('should rollback on transaction error', async () => {
-            const docRef = db.collection('users').doc('user-1');
-            await docRef.set({ name: 'Alice', balance: 100 });
+        it('should use stored data for snapshot cursors', async () => {
+            db.seed('users/user-1', { fullName: 'Alice', age: 30 });
+            db.seed('users/user-2', { fullName: 'Bob', age: 25 });
 
-            try {
-                await db.runTransaction(async (transaction) => {
-                    transaction.update(docRef, { balance: 150 });
-                    throw new Error('Transaction failed');
-                });
-            } catch (error) {
-                //
-            }
+            const users = db.collection('users').withConverter(userConverter);
+            const bob = await users.doc('user-2').get();
+            const snapshot = await users.orderBy('age').startAfter(bob).get();
 
-            const snapshot = await docRef.get();
-            expect(snapshot.data()?.balance).toBe(100);
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['user-1']);
         });
 
-        it('should handle query in transaction', async () => {
-            await db.collection('users').doc('user-1').set({ name: 'Alice', age: 25 });
-            await db.collection('users').doc('user-2').set({ name: 'Bob', age: 30 });
+        it('should remove the converter with withConverter(null)', async () => {
+            db.seed('users/user-1', { fullName: 'Alice', age: 30 });
 
-            const result = await db.runTransaction(async (transaction) => {
-                const query = db.collection('users').where('age', '>', 20);
-                const querySnapshot = await transaction.get(query);
+            const docRef = db.collection('users').withConverter(userConverter).doc('user-1').withConverter(null);
 
-                return querySnapshot.size;
+            expect((await docRef.get()).data()).toEqual({ fullName: 'Alice', age: 30 });
+        });
+
+        it('should convert documents delivered to listeners', async () => {
+            const docSnapshots: Array<User | undefined> = [];
+            const querySnapshots: User[][] = [];
+            const users = db.collection('users').withConverter(userConverter);
+            const unsubscribeDoc = users.doc('user-1').onSnapshot((snapshot) => docSnapshots.push(snapshot.data()));
+            const unsubscribeQuery = users.onSnapshot((snapshot) => querySnapshots.push(snapshot.docs.map((doc) => doc.data()!)));
+            await waitForUpdates();
+
+            await db.doc('users/user-1').set({ fullName: 'Alice', age: 30 });
+            await waitForUpdates();
+
+            expect(docSnapshots).toEqual([undefined, new User('Alice', 30)]);
+            expect(querySnapshots).toEqual([[], [new User('Alice', 30)]]);
+            unsubscribeDoc();
+            unsubscribeQuery();
+        });
+
+        it('should convert data in transactions and batches', async () => {
+            const users = db.collection('users').withConverter(userConverter);
+
+            const batch = db.batch();
+            batch.set(users.doc('user-1'), new User('Alice', 30));
+            batch.create(users.doc('user-2'), new User('Bob', 25));
+            await batch.commit();
+
+            const age = await db.runTransaction(async (transaction) => {
+                const snapshot = await transaction.get(users.doc('user-1'));
+                const user = snapshot.data()!;
+                transaction.set(users.doc('user-1'), new User(user.name, user.age + 1));
+                return user.age;
             });
 
-            expect(result).toBe(2);
+            expect(age).toBe(30);
+            expect((await db.doc('users/user-1').get()).data()).toEqual({ fullName: 'Alice', age: 31 });
+            expect((await db.doc('users/user-2').get()).data()).toEqual({ fullName: 'Bob', age: 25 });
         });
     });
 
-    describe('Batch operations', () => {
-        it('should batch multiple writes', async () => {
-            const batch = db.batch();
+    describe('Multi-document reads', () => {
+        beforeEach(() => {
+            db.seed('users/user-1', { name: 'Alice', profile: { city: 'NYC', age: 30 } });
+            db.seed('users/user-2', { name: 'Bob', profile: { city: 'LA', age: 25 } });
+        });
 
-            const doc1 = db.collection('users').doc('user-1');
-            const doc2 = db.collection('users').doc('user-2');
-            const doc3 = db.collection('users').doc('user-3');
+        it('should return snapshots in the order the references were given', async () => {
+            const snapshots = await db.getAll(db.doc('users/user-2'), db.doc('users/missing'), db.doc('users/user-1'), db.doc('users/user-2'));
 
-            batch.set(doc1, { name: 'Alice' });
-            batch.set(doc2, { name: 'Bob' });
-            batch.update(doc3, { name: 'Charlie' });
+            expect(snapshots.map((snapshot) => snapshot.id)).toEqual(['user-2', 'missing', 'user-1', 'user-2']);
+            expect(snapshots.map((snapshot) => snapshot.exists)).toEqual([true, false, true, true]);
+            expect(snapshots[2].data()).toEqual({ name: 'Alice', profile: { city: 'NYC', age: 30 } });
+        });
 
-            try {
-                await batch.commit();
-            } catch (error) {
-                //
-            }
+        it('should restrict data to the field mask', async () => {
+            const [alice, missing] = await db.getAll(db.doc('users/user-1'), db.doc('users/missing'), { fieldMask: ['name', new FieldPath('profile', 'city'), 'unknown'] });
 
-            const snapshot1 = await doc1.get();
-            const snapshot2 = await doc2.get();
+            expect(alice.data()).toEqual({ name: 'Alice', profile: { city: 'NYC' } });
+            expect(missing.data()).toBeUndefined();
+            expect((await db.doc('users/user-1').get()).data()).toEqual({ name: 'Alice', profile: { city: 'NYC', age: 30 } });
+        });
 
-            expect(snapshot1.exists).toBe(true);
-            expect(snapshot2.exists).toBe(true);
+        it('should require at least one argument', async () => {
+            await expect(db.getAll()).rejects.toThrow('Function "Firestore.getAll()" requires at least 1 argument.');
+        });
+
+        it('should apply each reference\'s converter', async () => {
+            const converter: FirestoreDataConverter<string> = {
+                toFirestore: (name: Partial<string>) => ({ name }),
+                fromFirestore: (snapshot) => snapshot.data()!.name,
+            };
+
+            const [alice] = await db.getAll(db.doc('users/user-1').withConverter(converter));
+
+            expect(alice.data()).toBe('Alice');
+        });
+
+        it('should record transactional reads for conflict detection', async () => {
+            let attempts = 0;
+            await db.runTransaction(async (transaction) => {
+                attempts++;
+                const [alice, bob] = await transaction.getAll(db.doc('users/user-1'), db.doc('users/user-2'), { fieldMask: ['name'] });
+                if (attempts === 1) {
+                    await db.doc('users/user-2').update({ name: 'Robert' });
+                }
+                transaction.update(alice.ref, { friend: bob.data()!.name });
+            });
+
+            expect(attempts).toBe(2);
+            expect((await db.doc('users/user-1').get()).data()!.friend).toBe('Robert');
+        });
+
+        it('should reject transactional getAll after a write', async () => {
+            await expect(db.runTransaction(async (transaction) => {
+                transaction.set(db.doc('users/user-3'), { name: 'Carol' });
+                await transaction.getAll(db.doc('users/user-1'));
+            }))
+                .rejects
+                .toThrow('Firestore transactions require all reads to be executed before all writes.');
         });
     });
 
@@ -223,6 +2182,106 @@ describe('StubFirestoreDatabase - Example Usage', () => {
         });
     });
 
+    describe('Collection and document listing', () => {
+        beforeEach(() => {
+            db.seed('users/user-1', { name: 'Alice' });
+            db.seed('users/user-1/orders/order-1', { total: 10 });
+            db.seed('users/user-1/addresses/home', { city: 'NYC' });
+            db.seed('users/user-2/orders/order-2', { total: 20 });
+            db.seed('products/product-1', { name: 'Widget' });
+        });
+
+        it('should list root collections', async () => {
+            const collections = await db.listCollections();
+
+            expect(collections.map((collection) => collection.id)).toEqual(['products', 'users']);
+        });
+
+        it('should list the subcollections of a document', async () => {
+            const collections = await db.doc('users/user-1').listCollections();
+
+            expect(collections.map((collection) => collection.path)).toEqual(['users/user-1/addresses', 'users/user-1/orders']);
+            expect(await db.doc('products/product-1').listCollections()).toEqual([]);
+        });
+
+        it('should list documents including missing parents of subcollections', async () => {
+            const documents = await db.collection('users').listDocuments();
+
+            expect(documents.map((document) => document.path)).toEqual(['users/user-1', 'users/user-2']);
+            expect((await documents[1].get()).exists).toBe(false);
+            expect((await documents[1].listCollections()).map((collection) => collection.id)).toEqual(['orders']);
+        });
+
+        it('should walk the whole tree generically', async () => {
+            const paths: string[] = [];
+            const walk = async (collections: ICollectionReference[]): Promise<void> => {
+                for (const collection of collections) {
+                    for (const document of await collection.listDocuments()) {
+                        paths.push(document.path);
+                        await walk(await document.listCollections());
+                    }
+                }
+            };
+
+            await walk(await db.listCollections());
+
+            expect(paths).toEqual([
+                'products/product-1',
+                'users/user-1',
+                'users/user-1/addresses/home',
+                'users/user-1/orders/order-1',
+                'users/user-2',
+                'users/user-2/orders/order-2',
+            ]);
+        });
+    });
+
+    describe('Path validation', () => {
+        it('should require collection paths with an odd number of segments', () => {
+            expect(() => db.collection('users/user-1'))
+                .toThrow('Value for argument "collectionPath" must point to a collection, but was "users/user-1". Your path does not contain an odd number of components.');
+            expect(() => db.doc('users/user-1').collection('posts/post-1')).toThrow('must point to a collection, but was "posts/post-1"');
+
+            expect(db.collection('users/user-1/posts').path).toBe('users/user-1/posts');
+        });
+
+        it('should require document paths with an even number of segments', () => {
+            expect(() => db.doc('users'))
+                .toThrow('Value for argument "documentPath" must point to a document, but was "users". Your path does not contain an even number of components.');
+            expect(() => db.collection('users').doc('user-1/posts')).toThrow('must point to a document, but was "user-1/posts"');
+
+            expect(db.collection('users').doc('user-1/posts/post-1').path).toBe('users/user-1/posts/post-1');
+        });
+
+        it('should reject empty paths and empty segments', () => {
+            expect(() => db.collection('')).toThrow('Value for argument "collectionPath" is not a valid resource path. Path must be a non-empty string.');
+            expect(() => db.collection('users').doc('')).toThrow('Value for argument "documentPath" is not a valid resource path. Path must be a non-empty string.');
+            expect(() => db.doc('users//user-1')).toThrow('Value for argument "documentPath" is not a valid resource path. Paths must not contain //.');
+        });
+
+        it('should drop leading and trailing slashes like the SDK', () => {
+            expect(db.collection('/users/').path).toBe('users');
+            expect(db.doc('/users/user-1').path).toBe('users/user-1');
+        });
+
+        it('should reject reserved and overly long IDs', () => {
+            const users = db.collection('users');
+
+            expect(() => users.doc('.')).toThrow('3 INVALID_ARGUMENT: Resource id "." is invalid because it is reserved.');
+            expect(() => users.doc('..')).toThrow('3 INVALID_ARGUMENT: Resource id ".." is invalid because it is reserved.');
+            expect(() => users.doc('__user__')).toThrow('3 INVALID_ARGUMENT: Resource id "__user__" is invalid because it is reserved.');
+            expect(() => db.doc('users/user-1').collection('__posts__')).toThrow('Resource id "__posts__" is invalid because it is reserved.');
+            expect(() => users.doc('x'.repeat(1501))).toThrow('is invalid because it is longer than 1,500 bytes.');
+
+            expect(users.doc('x'.repeat(1500)).id).toHaveLength(1500);
+            expect(users.doc('_user_').id).toBe('_user_');
+        });
+
+        it('should reject collection group IDs containing a slash', () => {
+            expect(() => db.collectionGroup('users/posts')).toThrow('Invalid collectionId \'users/posts\'. Collection IDs must not contain \'/\'.');
+        });
+    });
+
     describe('Collection group queries', () => {
         beforeEach(async () => {
             // Set up share links in multiple groups
@@ -283,6 +2342,14 @@ describe('StubFirestoreDatabase - Example Usage', () => {
             expect(querySnapshot.size).toBe(0);
         });
 
+        it('should not include same-named subcollections in root collection queries', async () => {
+            db.seed('shareLinks/root-link', { token: 'root' });
+
+            const snapshot = await db.collection('shareLinks').get();
+
+            expect(snapshot.docs.map((doc) => doc.id)).toEqual(['root-link']);
+        });
+
         it('should handle collection group with ordering and limit', async () => {
             const querySnapshot = await db.collectionGroup('shareLinks').orderBy('createdBy').limit(2).get();
 
@@ -477,6 +2544,31 @@ describe('StubFirestoreDatabase - Example Usage', () => {
             expect(data?.metadata?.lastModified).toBeInstanceOf(Timestamp);
         });
 
+        it('should resolve FieldValue.serverTimestamp() to the commit time', async () => {
+            const docRef = db.collection('documents').doc('doc-1');
+            await docRef.set({ t: FieldValue.serverTimestamp(), nested: { t: FieldValue.serverTimestamp() } });
+            const created = await docRef.get();
+            await docRef.update({ 'nested.u': FieldValue.serverTimestamp() });
+            const snapshot = await docRef.get();
+
+            expect(created.data()!.t.isEqual(created.updateTime!)).toBe(true);
+            expect(created.data()!.nested.t.isEqual(created.updateTime!)).toBe(true);
+            expect(snapshot.data()!.nested.u.isEqual(snapshot.updateTime!)).toBe(true);
+
+            const batch = db.batch();
+            for (let i = 0; i < 5; i++) {
+                batch.set(db.collection('documents').doc(`batch-${i}`), { t: FieldValue.serverTimestamp() });
+            }
+            await batch.commit();
+
+            const batchSnapshots = await db.collection('documents').where('t', '>', snapshot.updateTime!).get();
+            expect(batchSnapshots.size).toBe(5);
+            for (const doc of batchSnapshots.docs) {
+                expect(doc.data().t.isEqual(batchSnapshots.docs[0].data().t)).toBe(true);
+                expect(doc.data().t.isEqual(doc.updateTime!)).toBe(true);
+            }
+        });
+
         it('should handle mixed FieldValue operations (increment + serverTimestamp)', async () => {
             const docRef = db.collection('documents').doc('doc-1');
 
@@ -582,6 +2674,100 @@ describe('StubFirestoreDatabase - Example Usage', () => {
         });
     });
 
+    describe('FieldValue.arrayUnion() and arrayRemove()', () => {
+        it('should append only missing elements with arrayUnion on update', async () => {
+            const docRef = db.collection('groups').doc('group-1');
+            await docRef.set({ members: ['alice', 'bob'] });
+
+            await docRef.update({ members: FieldValue.arrayUnion('bob', 'carol', 'carol') });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()?.members).toEqual(['alice', 'bob', 'carol']);
+        });
+
+        it('should remove every matching element with arrayRemove', async () => {
+            const docRef = db.collection('groups').doc('group-1');
+            await docRef.set({ members: ['alice', 'bob', 'alice', 'carol'] });
+
+            await docRef.update({ members: FieldValue.arrayRemove('alice', 'dave') });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()?.members).toEqual(['bob', 'carol']);
+        });
+
+        it('should treat missing fields as empty arrays', async () => {
+            const docRef = db.collection('posts').doc('post-1');
+            await docRef.set({ title: 'Hello' });
+
+            await docRef.update({ tags: FieldValue.arrayUnion('a', 'a'), removed: FieldValue.arrayRemove('x') });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toEqual({ title: 'Hello', tags: ['a'], removed: [] });
+        });
+
+        it('should resolve transforms in a plain set', async () => {
+            const docRef = db.collection('posts').doc('post-1');
+
+            await docRef.set({ tags: FieldValue.arrayUnion('a', 'b'), removed: FieldValue.arrayRemove('a') });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toEqual({ tags: ['a', 'b'], removed: [] });
+        });
+
+        it('should apply transforms with set merge including nested fields', async () => {
+            const docRef = db.collection('posts').doc('post-1');
+            await docRef.set({ tags: ['a'], meta: { labels: ['x'], owner: 'alice' } });
+
+            await docRef.set({ tags: FieldValue.arrayUnion('b'), meta: { labels: FieldValue.arrayRemove('x') } }, { merge: true });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toEqual({ tags: ['a', 'b'], meta: { labels: [], owner: 'alice' } });
+        });
+
+        it('should apply transforms with dot notation paths', async () => {
+            const docRef = db.collection('posts').doc('post-1');
+            await docRef.set({ meta: { labels: ['x', 'y'], owner: 'alice' } });
+
+            await docRef.update({ 'meta.labels': FieldValue.arrayUnion('z'), 'meta.reviewers': FieldValue.arrayUnion('bob') });
+            await docRef.update({ 'meta.labels': FieldValue.arrayRemove('x') });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()).toEqual({ meta: { labels: ['y', 'z'], owner: 'alice', reviewers: ['bob'] } });
+        });
+
+        it('should de-duplicate objects and Timestamps by value', async () => {
+            const docRef = db.collection('calendars').doc('cal-1');
+            await docRef.set({ slots: [{ day: 'mon', hour: 9 }], dates: [Timestamp.fromMillis(1_000)] });
+
+            await docRef.update({
+                slots: FieldValue.arrayUnion({ hour: 9, day: 'mon' }, { day: 'tue', hour: 10 }),
+                dates: FieldValue.arrayUnion(Timestamp.fromMillis(1_000), Timestamp.fromMillis(2_000)),
+            });
+            await docRef.update({ slots: FieldValue.arrayRemove({ day: 'mon', hour: 9 }) });
+
+            const data = (await docRef.get()).data();
+            expect(data?.slots).toEqual([{ day: 'tue', hour: 10 }]);
+            expect(data?.dates.map((date: Timestamp) => date.toMillis())).toEqual([1_000, 2_000]);
+        });
+
+        it('should apply transforms in batches and transactions', async () => {
+            const docRef = db.collection('groups').doc('group-1');
+            await docRef.set({ members: ['alice'] });
+
+            const batch = db.batch();
+            batch.update(docRef, { members: FieldValue.arrayUnion('bob') });
+            await batch.commit();
+
+            await db.runTransaction(async (transaction) => {
+                await transaction.get(docRef);
+                transaction.update(docRef, { members: FieldValue.arrayRemove('alice') });
+            });
+
+            const snapshot = await docRef.get();
+            expect(snapshot.data()?.members).toEqual(['bob']);
+        });
+    });
+
     describe('Deep merge operations', () => {
         it('should deep merge nested objects with set merge', async () => {
             const docRef = db.collection('settings').doc('user-settings');
@@ -1195,5 +3381,150 @@ describe('StubFirestoreDatabase - Example Usage', () => {
                 ['Charlie'],
             ]);
         });
+
+        it('should report docChanges relative to the previous snapshot', async () => {
+            const users = db.collection('users');
+            await users.doc('user-1').set({ name: 'Alice', score: 10 });
+            await users.doc('user-2').set({ name: 'Bob', score: 20 });
+
+            const changes: Array<Array<{ type: string; id: string; oldIndex: number; newIndex: number; }>> = [];
+            const unsubscribe = users.orderBy('score').onSnapshot((snapshot) => {
+                changes.push(snapshot.docChanges().map((change) => ({ type: change.type, id: change.doc.id, oldIndex: change.oldIndex, newIndex: change.newIndex })));
+            });
+            await waitForUpdates();
+
+            await users.doc('user-3').set({ name: 'Charlie', score: 15 });
+            await waitForUpdates();
+
+            await users.doc('user-1').update({ score: 30 });
+            await waitForUpdates();
+
+            await users.doc('user-2').delete();
+            await waitForUpdates();
+
+            unsubscribe();
+
+            expect(changes).toEqual([
+                [
+                    { type: 'added', id: 'user-1', oldIndex: -1, newIndex: 0 },
+                    { type: 'added', id: 'user-2', oldIndex: -1, newIndex: 1 },
+                ],
+                [{ type: 'added', id: 'user-3', oldIndex: -1, newIndex: 1 }],
+                [{ type: 'modified', id: 'user-1', oldIndex: 0, newIndex: 2 }],
+                [{ type: 'removed', id: 'user-2', oldIndex: 1, newIndex: -1 }],
+            ]);
+        });
+
+        it('should report removed documents with their last known data', async () => {
+            const users = db.collection('users');
+            await users.doc('user-1').set({ name: 'Alice', city: 'NYC' });
+
+            const removed: any[] = [];
+            const unsubscribe = users.where('city', '==', 'NYC').onSnapshot((snapshot) => {
+                snapshot.docChanges()
+                    .filter((change) => change.type === 'removed')
+                    .forEach((change) => removed.push(change.doc.data()));
+            });
+            await waitForUpdates();
+
+            await users.doc('user-1').update({ city: 'LA' });
+            await waitForUpdates();
+            unsubscribe();
+
+            expect(removed).toEqual([{ name: 'Alice', city: 'NYC' }]);
+        });
+
+        it('should apply changes from a batch in removed, added, modified order', async () => {
+            const users = db.collection('users');
+            await users.doc('a').set({ rank: 1 });
+            await users.doc('b').set({ rank: 2 });
+            await users.doc('c').set({ rank: 3 });
+
+            let latest: Array<{ type: string; id: string; oldIndex: number; newIndex: number; }> = [];
+            const unsubscribe = users.orderBy('rank').onSnapshot((snapshot) => {
+                latest = snapshot.docChanges().map((change) => ({ type: change.type, id: change.doc.id, oldIndex: change.oldIndex, newIndex: change.newIndex }));
+            });
+            await waitForUpdates();
+
+            const batch = db.batch();
+            batch.update(users.doc('c'), { rank: 0 });
+            batch.set(users.doc('d'), { rank: 4 });
+            batch.delete(users.doc('a'));
+            await batch.commit();
+            await waitForUpdates();
+            unsubscribe();
+
+            expect(latest).toEqual([
+                { type: 'removed', id: 'a', oldIndex: 0, newIndex: -1 },
+                { type: 'added', id: 'd', oldIndex: -1, newIndex: 2 },
+                { type: 'modified', id: 'c', oldIndex: 1, newIndex: 0 },
+            ]);
+        });
+
+        it('should not notify query listeners about writes to other collections', async () => {
+            await db.collection('orders').doc('order-1').set({ total: 10 });
+
+            let calls = 0;
+            const unsubscribe = db.collection('orders').onSnapshot(() => {
+                calls++;
+            });
+            await waitForUpdates();
+
+            await db.collection('users').doc('user-1').set({ name: 'Alice' });
+            await db.collection('orders').doc('order-1').collection('items').doc('item-1').set({ sku: 'A' });
+            await waitForUpdates();
+            unsubscribe();
+
+            expect(calls).toBe(1);
+        });
+
+        it('should not notify query listeners when their results are unchanged', async () => {
+            const users = db.collection('users');
+            await users.doc('user-1').set({ name: 'Alice', city: 'NYC' });
+
+            const snapshots: string[][] = [];
+            const unsubscribe = users.where('city', '==', 'NYC').onSnapshot((snapshot) => {
+                snapshots.push(snapshot.docs.map((doc) => doc.id));
+            });
+            await waitForUpdates();
+
+            await users.doc('user-2').set({ name: 'Bob', city: 'LA' });
+            await users.doc('user-1').set({ name: 'Alice', city: 'NYC' });
+            await waitForUpdates();
+
+            await users.doc('user-1').update({ name: 'Alice Smith' });
+            await waitForUpdates();
+            unsubscribe();
+
+            expect(snapshots).toEqual([['user-1'], ['user-1']]);
+        });
+
+        it('should notify collection group listeners about writes in any matching collection', async () => {
+            const counts: number[] = [];
+            const unsubscribe = db.collectionGroup('items').onSnapshot((snapshot) => {
+                counts.push(snapshot.size);
+            });
+            await waitForUpdates();
+
+            await db.collection('orders').doc('order-1').collection('items').doc('item-1').set({ sku: 'A' });
+            await waitForUpdates();
+            await db.collection('carts').doc('cart-1').collection('items').doc('item-1').set({ sku: 'B' });
+            await waitForUpdates();
+            unsubscribe();
+
+            expect(counts).toEqual([0, 1, 2]);
+        });
+
+        it('should report every document as added for a one-off get', async () => {
+            await db.collection('users').doc('user-1').set({ name: 'Alice' });
+            await db.collection('users').doc('user-2').set({ name: 'Bob' });
+
+            const snapshot = await db.collection('users').get();
+
+            expect(snapshot.docChanges().map((change) => [change.type, change.doc.id, change.oldIndex, change.newIndex])).toEqual([
+                ['added', 'user-1', -1, 0],
+                ['added', 'user-2', -1, 1],
+            ]);
+        });
     });
 });
@@ -8,9 +8,15 @@
 
 import type * as FirebaseAdmin from 'firebase-admin/firestore';
 import type {
+    BulkWriterOperationType,
+    DocumentData,
+    FirestoreDataConverter,
     IAggregateQuery,
     IAggregateQuerySnapshot,
+    IBulkWriter,
+    IBulkWriterError,
     ICollectionReference,
+    IDocumentChange,
     IDocumentReference,
     IDocumentSnapshot,
     IFirestoreDatabase,
@@ -18,13 +24,17 @@ import type {
     IQuerySnapshot,
     ITransaction,
     IWriteBatch,
+    IWriteResult,
     OrderByDirection,
+    Precondition,
+    ReadOptions,
     SetOptions,
+    TransactionOptions,
     WhereFilterOp,
 } from './firestore-types';
 
 class DocumentSnapshotWrapper implements IDocumentSnapshot {
-    constructor(private readonly snapshot: FirebaseAdmin.DocumentSnapshot) {}
+    constructor(private readonly snapshot: FirebaseAdmin.DocumentSnapshot<any>) {}
 
     get exists(): boolean {
         return this.snapshot.exists;
@@ -38,13 +48,25 @@ class DocumentSnapshotWrapper implements IDocumentSnapshot {
         return new DocumentReferenceWrapper(this.snapshot.ref);
     }
 
+    get createTime(): FirebaseAdmin.Timestamp | undefined {
+        return this.snapshot.createTime;
+    }
+
+    get updateTime(): FirebaseAdmin.Timestamp | undefined {
+        return this.snapshot.updateTime;
+    }
+
+    get readTime(): FirebaseAdmin.Timestamp {
+        return this.snapshot.readTime;
+    }
+
     data(): any | undefined {
         return this.snapshot.data();
     }
 }
 
 class QuerySnapshotWrapper implements IQuerySnapshot {
-    constructor(private readonly snapshot: FirebaseAdmin.QuerySnapshot) {}
+    constructor(private readonly snapshot: FirebaseAdmin.QuerySnapshot<any>) {}
 
     get docs(): IDocumentSnapshot[] {
         return this.snapshot.docs.map((doc) => new DocumentSnapshotWrapper(doc));
@@ -58,30 +80,66 @@ class QuerySnapshotWrapper implements IQuerySnapshot {
         return this.snapshot.size;
     }
 
+    get readTime(): FirebaseAdmin.Timestamp {
+        return this.snapshot.readTime;
+    }
+
+    docChanges(): IDocumentChange[] {
+        return this.snapshot.docChanges().map((change) => ({
+            type: change.type,
+            doc: new DocumentSnapshotWrapper(change.doc),
+            oldIndex: change.oldIndex,
+            newIndex: change.newIndex,
+        }));
+    }
+
     forEach(callback: (result: IDocumentSnapshot) => void): void {
         this.snapshot.forEach((doc) => callback(new DocumentSnapshotWrapper(doc)));
     }
 }
 
-class AggregateQuerySnapshotWrapper implements IAggregateQuerySnapshot {
-    constructor(private readonly snapshot: FirebaseAdmin.AggregateQuerySnapshot<{ count: FirebaseAdmin.AggregateField<number>; }>) {}
+class AggregateQuerySnapshotWrapper<T extends FirebaseAdmin.AggregateSpec> implements IAggregateQuerySnapshot<FirebaseAdmin.AggregateSpecData<T>> {
+    constructor(private readonly snapshot: FirebaseAdmin.AggregateQuerySnapshot<T>) {}
 
-    data(): { count: number; } {
-        return { count: this.snapshot.data().count };
+    data(): FirebaseAdmin.AggregateSpecData<T> {
+        return this.snapshot.data();
     }
 }
 
-class AggregateQueryWrapper implements IAggregateQuery {
-    constructor(private readonly aggregateQuery: FirebaseAdmin.AggregateQuery<{ count: FirebaseAdmin.AggregateField<number>; }>) {}
+class AggregateQueryWrapper<T extends FirebaseAdmin.AggregateSpec> implements IAggregateQuery<FirebaseAdmin.AggregateSpecData<T>> {
+    constructor(private readonly aggregateQuery: FirebaseAdmin.AggregateQuery<T>) {}
 
-    async get(): Promise<IAggregateQuerySnapshot> {
+    async get(): Promise<IAggregateQuerySnapshot<FirebaseAdmin.AggregateSpecData<T>>> {
         const snapshot = await this.aggregateQuery.get();
         return new AggregateQuerySnapshotWrapper(snapshot);
     }
 }
 
+function toAdminConverter<T>(converter: FirestoreDataConverter<T>): FirebaseAdmin.FirestoreDataConverter<T> {
+    return {
+        toFirestore: (modelObject: any, options?: FirebaseAdmin.SetOptions) => options ? converter.toFirestore(modelObject, options as SetOptions) : converter.toFirestore(modelObject),
+        fromFirestore: (snapshot) => converter.fromFirestore(new DocumentSnapshotWrapper(snapshot)),
+    };
+}
+
+function unwrapGetAllArguments(documentRefsOrReadOptions: Array<IDocumentReference | ReadOptions>): Array<FirebaseAdmin.DocumentReference<any> | FirebaseAdmin.ReadOptions> {
+    return documentRefsOrReadOptions.map((value) => value instanceof DocumentReferenceWrapper ? value['docRef'] : value as FirebaseAdmin.ReadOptions);
+}
+
+function unwrapCursorValues(fieldValues: any[]): any[] {
+    return fieldValues.map((value) => {
+        if (value instanceof DocumentSnapshotWrapper) {
+            return value['snapshot'];
+        }
+        if (value instanceof DocumentReferenceWrapper) {
+            return value['docRef'];
+        }
+        return value;
+    });
+}
+
 class QueryWrapper implements IQuery {
-    constructor(protected readonly query: FirebaseAdmin.Query) {}
+    constructor(protected readonly query: FirebaseAdmin.Query<any>) {}
 
     where(fieldPath: string | any, opStr?: WhereFilterOp | any, value?: any): IQuery {
         if (opStr !== undefined && value !== undefined) {
@@ -98,24 +156,40 @@ class QueryWrapper implements IQuery {
         return new QueryWrapper(this.query.limit(limit));
     }
 
+    limitToLast(limit: number): IQuery {
+        return new QueryWrapper(this.query.limitToLast(limit));
+    }
+
     offset(offset: number): IQuery {
         return new QueryWrapper(this.query.offset(offset));
     }
 
+    startAt(...fieldValues: any[]): IQuery {
+        return new QueryWrapper(this.query.startAt(...unwrapCursorValues(fieldValues)));
+    }
+
     startAfter(...fieldValues: any[]): IQuery {
-        const unwrappedValues = fieldValues.map((value) => {
-            if (value && typeof value === 'object' && 'snapshot' in value) {
-                return (value as DocumentSnapshotWrapper)['snapshot'];
-            }
-            return value;
-        });
-        return new QueryWrapper(this.query.startAfter(...unwrappedValues));
+        return new QueryWrapper(this.query.startAfter(...unwrapCursorValues(fieldValues)));
+    }
+
+    endAt(...fieldValues: any[]): IQuery {
+        return new QueryWrapper(this.query.endAt(...unwrapCursorValues(fieldValues)));
+    }
+
+    endBefore(...fieldValues: any[]): IQuery {
+        return new QueryWrapper(this.query.endBefore(...unwrapCursorValues(fieldValues)));
     }
 
     select(...fieldPaths: string[]): IQuery {
         return new QueryWrapper(this.query.select(...fieldPaths));
     }
 
+    withConverter<U>(converter: FirestoreDataConverter<U>): IQuery<U>;
+    withConverter(converter: null): IQuery<DocumentData>;
+    withConverter<U>(converter: FirestoreDataConverter<U> | null): IQuery<U> {
+        return new QueryWrapper(converter ? this.query.withConverter(toAdminConverter(converter)) : this.query.withConverter(null));
+    }
+
     onSnapshot(onNext: (snapshot: IQuerySnapshot) => void, onError?: (error: Error) => void): () => void {
         const unsubscribe = this.query.onSnapshot(
             (snapshot) => onNext(new QuerySnapshotWrapper(snapshot)),
@@ -132,13 +206,25 @@ class QueryWrapper implements IQuery {
     count(): IAggregateQuery {
         return new AggregateQueryWrapper(this.query.count());
     }
+
+    aggregate<T extends FirebaseAdmin.AggregateSpec>(aggregateSpec: T): IAggregateQuery<FirebaseAdmin.AggregateSpecData<T>> {
+        return new AggregateQueryWrapper(this.query.aggregate(aggregateSpec));
+    }
 }
 
 class CollectionReferenceWrapper extends QueryWrapper implements ICollectionReference {
-    constructor(private readonly collectionRef: FirebaseAdmin.CollectionReference) {
+    constructor(private readonly collectionRef: FirebaseAdmin.CollectionReference<any>) {
         super(collectionRef);
     }
 
+    get id(): string {
+        return this.collectionRef.id;
+    }
+
+    get path(): string {
+        return this.collectionRef.path;
+    }
+
     get parent(): IDocumentReference | null {
         return this.collectionRef.parent ? new DocumentReferenceWrapper(this.collectionRef.parent) : null;
     }
@@ -146,10 +232,21 @@ class CollectionReferenceWrapper extends QueryWrapper implements ICollectionRefe
     doc(documentId?: string): IDocumentReference {
         return new DocumentReferenceWrapper(documentId ? this.collectionRef.doc(documentId) : this.collectionRef.doc());
     }
+
+    async listDocuments(): Promise<IDocumentReference[]> {
+        const documents = await this.collectionRef.listDocuments();
+        return documents.map((document) => new DocumentReferenceWrapper(document));
+    }
+
+    withConverter<U>(converter: FirestoreDataConverter<U>): ICollectionReference<U>;
+    withConverter(converter: null): ICollectionReference<DocumentData>;
+    withConverter<U>(converter: FirestoreDataConverter<U> | null): ICollectionReference<U> {
+        return new CollectionReferenceWrapper(converter ? this.collectionRef.withConverter(toAdminConverter(converter)) : this.collectionRef.withConverter(null));
+    }
 }
 
 class DocumentReferenceWrapper implements IDocumentReference {
-    constructor(private readonly docRef: FirebaseAdmin.DocumentReference) {}
+    constructor(private readonly docRef: FirebaseAdmin.DocumentReference<any>) {}
 
     get id(): string {
         return this.docRef.id;
@@ -167,6 +264,11 @@ class DocumentReferenceWrapper implements IDocumentReference {
         return new CollectionReferenceWrapper(this.docRef.collection(collectionPath));
     }
 
+    async listCollections(): Promise<ICollectionReference[]> {
+        const collections = await this.docRef.listCollections();
+        return collections.map((collection) => new CollectionReferenceWrapper(collection));
+    }
+
     onSnapshot(onNext: (snapshot: IDocumentSnapshot) => void, onError?: (error: Error) => void): () => void {
         const unsubscribe = this.docRef.onSnapshot(
             (snapshot) => onNext(new DocumentSnapshotWrapper(snapshot)),
@@ -180,6 +282,12 @@ class DocumentReferenceWrapper implements IDocumentReference {
         return new DocumentSnapshotWrapper(snapshot);
     }
 
+    withConverter<U>(converter: FirestoreDataConverter<U>): IDocumentReference<U>;
+    withConverter(converter: null): IDocumentReference<DocumentData>;
+    withConverter<U>(converter: FirestoreDataConverter<U> | null): IDocumentReference<U> {
+        return new DocumentReferenceWrapper(converter ? this.docRef.withConverter(toAdminConverter(converter)) : this.docRef.withConverter(null));
+    }
+
     async set(data: any, options?: SetOptions): Promise<void> {
         if (options) {
             await this.docRef.set(data, options as FirebaseAdmin.SetOptions);
@@ -188,12 +296,20 @@ class DocumentReferenceWrapper implements IDocumentReference {
         }
     }
 
-    async update(data: any): Promise<void> {
-        await this.docRef.update(data);
+    async create(data: any): Promise<void> {
+        await this.docRef.create(data);
     }
 
-    async delete(): Promise<void> {
-        await this.docRef.delete();
+    async update(data: any, precondition?: Precondition): Promise<void> {
+        if (precondition) {
+            await this.docRef.update(data, precondition);
+        } else {
+            await this.docRef.update(data);
+        }
+    }
+
+    async delete(precondition?: Precondition): Promise<void> {
+        await this.docRef.delete(precondition);
     }
 }
 
@@ -210,15 +326,25 @@ class WriteBatchWrapper implements IWriteBatch {
         return this;
     }
 
-    update(documentRef: IDocumentReference, data: any): IWriteBatch {
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): IWriteBatch {
+        const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
+        if (precondition) {
+            this.batch.update(ref, data, precondition);
+        } else {
+            this.batch.update(ref, data);
+        }
+        return this;
+    }
+
+    delete(documentRef: IDocumentReference, precondition?: Precondition): IWriteBatch {
         const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
-        this.batch.update(ref, data);
+        this.batch.delete(ref, precondition);
         return this;
     }
 
-    delete(documentRef: IDocumentReference): IWriteBatch {
+    create(documentRef: IDocumentReference, data: any): IWriteBatch {
         const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
-        this.batch.delete(ref);
+        this.batch.create(ref, data);
         return this;
     }
 
@@ -246,6 +372,11 @@ class TransactionWrapper implements ITransaction {
         throw new Error('Unsupported reference type for transaction.get');
     }
 
+    async getAll<T = any>(...documentRefsOrReadOptions: Array<IDocumentReference<T> | ReadOptions>): Promise<IDocumentSnapshot<T>[]> {
+        const snapshots = await this.transaction.getAll(...unwrapGetAllArguments(documentRefsOrReadOptions));
+        return snapshots.map((snapshot) => new DocumentSnapshotWrapper(snapshot));
+    }
+
     set(documentRef: IDocumentReference, data: any, options?: SetOptions): ITransaction {
         if (!(documentRef instanceof DocumentReferenceWrapper)) {
             throw new Error('Unsupported document reference for transaction.set');
@@ -258,19 +389,23 @@ class TransactionWrapper implements ITransaction {
         return this;
     }
 
-    update(documentRef: IDocumentReference, data: any): ITransaction {
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): ITransaction {
         if (!(documentRef instanceof DocumentReferenceWrapper)) {
             throw new Error('Unsupported document reference for transaction.update');
         }
-        this.transaction.update(documentRef['docRef'], data);
+        if (precondition) {
+            this.transaction.update(documentRef['docRef'], data, precondition);
+        } else {
+            this.transaction.update(documentRef['docRef'], data);
+        }
         return this;
     }
 
-    delete(documentRef: IDocumentReference): ITransaction {
+    delete(documentRef: IDocumentReference, precondition?: Precondition): ITransaction {
         if (!(documentRef instanceof DocumentReferenceWrapper)) {
             throw new Error('Unsupported document reference for transaction.delete');
         }
-        this.transaction.delete(documentRef['docRef']);
+        this.transaction.delete(documentRef['docRef'], precondition);
         return this;
     }
 
@@ -283,6 +418,72 @@ class TransactionWrapper implements ITransaction {
     }
 }
 
+type AdminBulkWriterError = Parameters<Parameters<FirebaseAdmin.BulkWriter['onWriteError']>[0]>[0];
+
+class BulkWriterErrorWrapper extends Error implements IBulkWriterError {
+    readonly code: number;
+    readonly documentRef: IDocumentReference;
+    readonly operationType: BulkWriterOperationType;
+    readonly failedAttempts: number;
+
+    constructor(error: AdminBulkWriterError) {
+        super(error.message);
+        this.name = 'BulkWriterError';
+        this.code = error.code;
+        this.documentRef = new DocumentReferenceWrapper(error.documentRef);
+        this.operationType = error.operationType;
+        this.failedAttempts = error.failedAttempts;
+    }
+}
+
+class BulkWriterWrapper implements IBulkWriter {
+    constructor(private readonly writer: FirebaseAdmin.BulkWriter) {}
+
+    create<T>(documentRef: IDocumentReference<T>, data: T): Promise<IWriteResult> {
+        const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
+        return this.wrapResult(this.writer.create(ref, data));
+    }
+
+    set<T>(documentRef: IDocumentReference<T>, data: any, options?: SetOptions): Promise<IWriteResult> {
+        const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
+        return this.wrapResult(options ? this.writer.set(ref, data, options as FirebaseAdmin.SetOptions) : this.writer.set(ref, data));
+    }
+
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): Promise<IWriteResult> {
+        const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
+        return this.wrapResult(precondition ? this.writer.update(ref, data, precondition) : this.writer.update(ref, data));
+    }
+
+    delete(documentRef: IDocumentReference, precondition?: Precondition): Promise<IWriteResult> {
+        const ref = (documentRef as DocumentReferenceWrapper)['docRef'];
+        return this.wrapResult(this.writer.delete(ref, precondition));
+    }
+
+    onWriteResult(callback: (documentRef: IDocumentReference, result: IWriteResult) => void): void {
+        this.writer.onWriteResult((documentRef, result) => callback(new DocumentReferenceWrapper(documentRef), result));
+    }
+
+    onWriteError(shouldRetryCallback: (error: IBulkWriterError) => boolean): void {
+        this.writer.onWriteError((error) => shouldRetryCallback(new BulkWriterErrorWrapper(error)));
+    }
+
+    async flush(): Promise<void> {
+        await this.writer.flush();
+    }
+
+    async close(): Promise<void> {
+        await this.writer.close();
+    }
+
+    private async wrapResult(result: Promise<FirebaseAdmin.WriteResult>): Promise<IWriteResult> {
+        try {
+            return await result;
+        } catch (error) {
+            throw error instanceof Error && 'operationType' in error ? new BulkWriterErrorWrapper(error as AdminBulkWriterError) : error;
+        }
+    }
+}
+
 class FirestoreDatabaseWrapper implements IFirestoreDatabase {
     constructor(private readonly firestore: FirebaseAdmin.Firestore) {}
 
@@ -298,15 +499,29 @@ class FirestoreDatabaseWrapper implements IFirestoreDatabase {
         return new QueryWrapper(this.firestore.collectionGroup(collectionId));
     }
 
+    async getAll<T = any>(...documentRefsOrReadOptions: Array<IDocumentReference<T> | ReadOptions>): Promise<IDocumentSnapshot<T>[]> {
+        const snapshots = await this.firestore.getAll(...unwrapGetAllArguments(documentRefsOrReadOptions));
+        return snapshots.map((snapshot) => new DocumentSnapshotWrapper(snapshot));
+    }
+
     batch(): IWriteBatch {
         return new WriteBatchWrapper(this.firestore.batch());
     }
 
-    async runTransaction<T>(updateFunction: (transaction: ITransaction) => Promise<T>): Promise<T> {
+    bulkWriter(): IBulkWriter {
+        return new BulkWriterWrapper(this.firestore.bulkWriter());
+    }
+
+    async recursiveDelete(ref: ICollectionReference | IDocumentReference, bulkWriter?: IBulkWriter): Promise<void> {
+        const adminRef = ref instanceof DocumentReferenceWrapper ? ref['docRef'] : (ref as CollectionReferenceWrapper)['collectionRef'];
+        await this.firestore.recursiveDelete(adminRef, bulkWriter ? (bulkWriter as BulkWriterWrapper)['writer'] : undefined);
+    }
+
+    async runTransaction<T>(updateFunction: (transaction: ITransaction) => Promise<T>, options?: TransactionOptions): Promise<T> {
         return this.firestore.runTransaction(async (transaction) => {
             const wrapper = new TransactionWrapper(transaction);
             return updateFunction(wrapper);
-        });
+        }, options);
     }
 
     async listCollections(): Promise<ICollectionReference[]> {
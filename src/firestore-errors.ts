@@ -0,0 +1,87 @@
+/**
+ * Firestore Errors
+ *
+ * Errors for failed Firestore requests, shaped like the ones the admin SDK rejects with:
+ * a numeric gRPC status `code`, the server's `details`, and a message of the form
+ * "5 NOT_FOUND: No document to update: users/user-1".
+ */
+
+/**
+ * Firestore error codes, named like the client SDKs' `FirestoreErrorCode`
+ */
+export type FirestoreErrorCode =
+    | 'cancelled'
+    | 'unknown'
+    | 'invalid-argument'
+    | 'deadline-exceeded'
+    | 'not-found'
+    | 'already-exists'
+    | 'permission-denied'
+    | 'resource-exhausted'
+    | 'failed-precondition'
+    | 'aborted'
+    | 'out-of-range'
+    | 'unimplemented'
+    | 'internal'
+    | 'unavailable'
+    | 'data-loss'
+    | 'unauthenticated';
+
+const GRPC_STATUS_CODES: Record<FirestoreErrorCode, number> = {
+    'cancelled': 1,
+    'unknown': 2,
+    'invalid-argument': 3,
+    'deadline-exceeded': 4,
+    'not-found': 5,
+    'already-exists': 6,
+    'permission-denied': 7,
+    'resource-exhausted': 8,
+    'failed-precondition': 9,
+    'aborted': 10,
+    'out-of-range': 11,
+    'unimplemented': 12,
+    'internal': 13,
+    'unavailable': 14,
+    'data-loss': 15,
+    'unauthenticated': 16,
+};
+
+/**
+ * Resolve a Firestore error code to its numeric gRPC status code
+ */
+export function toGrpcStatusCode(code: FirestoreErrorCode | number): number {
+    if (typeof code === 'number') {
+        return code;
+    }
+    if (!(code in GRPC_STATUS_CODES)) {
+        throw new Error(`Unknown Firestore error code: ${code}`);
+    }
+    return GRPC_STATUS_CODES[code];
+}
+
+/**
+ * gRPC status name for a numeric code, e.g. NOT_FOUND for 5
+ */
+function toStatusName(statusCode: number): string {
+    const entry = Object.entries(GRPC_STATUS_CODES).find(([, value]) => value === statusCode);
+    return (entry?.[0] ?? 'unknown').toUpperCase().replace(/-/g, '_');
+}
+
+/**
+ * Error for a failed Firestore request. `code` is the numeric gRPC status, as on the admin SDK's errors.
+ */
+export class FirestoreError extends Error {
+    readonly code: number;
+
+    /**
+     * @param code - Error code, by name or as a numeric gRPC status
+     * @param details - Description of the failure
+     * @param message - Full message, for errors the SDK raises without the "<code> <STATUS>:" prefix
+     */
+    constructor(code: FirestoreErrorCode | number, readonly details: string, message?: string) {
+        const statusCode = toGrpcStatusCode(code);
+        super(message ?? `${statusCode} ${toStatusName(statusCode)}: ${details}`);
+        this.code = statusCode;
+        this.name = 'FirestoreError';
+    }
+}
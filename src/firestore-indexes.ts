@@ -0,0 +1,193 @@
+/**
+ * Firestore Index Definitions
+ *
+ * Models the firestore.indexes.json format and decides whether a query can be served by
+ * the automatic single-field indexes or a declared composite index. Used by
+ * StubFirestoreDatabase to reject queries that would fail in production with
+ * FAILED_PRECONDITION because an index is missing.
+ */
+
+import * as fs from 'fs';
+import { FirestoreError } from './firestore-errors';
+
+export type FirestoreIndexQueryScope = 'COLLECTION' | 'COLLECTION_GROUP';
+
+export type FirestoreIndexOrder = 'ASCENDING' | 'DESCENDING';
+
+export interface FirestoreIndexField {
+    fieldPath: string;
+    order?: FirestoreIndexOrder;
+    arrayConfig?: 'CONTAINS';
+}
+
+export interface FirestoreIndexDefinition {
+    collectionGroup: string;
+    queryScope: FirestoreIndexQueryScope;
+    fields: FirestoreIndexField[];
+}
+
+export interface FirestoreFieldOverrideIndex {
+    order?: FirestoreIndexOrder;
+    arrayConfig?: 'CONTAINS';
+    queryScope?: FirestoreIndexQueryScope;
+}
+
+export interface FirestoreFieldOverride {
+    collectionGroup: string;
+    fieldPath: string;
+    indexes: FirestoreFieldOverrideIndex[];
+}
+
+/**
+ * Contents of a firestore.indexes.json file
+ */
+export interface FirestoreIndexConfig {
+    indexes?: FirestoreIndexDefinition[];
+    fieldOverrides?: FirestoreFieldOverride[];
+}
+
+/**
+ * The index shape a single conjunction of query filters needs
+ */
+export interface QueryIndexRequirement {
+    collectionGroup: string;
+    queryScope: FirestoreIndexQueryScope;
+    /** Fields constrained by == or in */
+    equalityFields: string[];
+    /** Fields constrained by array-contains or array-contains-any */
+    arrayFields: string[];
+    /** Ordered fields (explicit orderBy and inequality fields), excluding the document name */
+    orderFields: Array<{ fieldPath: string; order: FirestoreIndexOrder; }>;
+}
+
+/**
+ * Load an index configuration from a parsed object or a path to a firestore.indexes.json file
+ */
+export function loadIndexConfig(source: FirestoreIndexConfig | string): FirestoreIndexConfig {
+    if (typeof source === 'string') {
+        return JSON.parse(fs.readFileSync(source, 'utf8')) as FirestoreIndexConfig;
+    }
+    return source;
+}
+
+export class FirestoreIndexSet {
+    constructor(private readonly config: FirestoreIndexConfig) {}
+
+    /**
+     * Throw if no declared or automatic index can serve the query requirement
+     */
+    assertIndexed(requirement: QueryIndexRequirement): void {
+        const missing = this.findMissingIndex(requirement);
+        if (missing) {
+            throw new FirestoreError('failed-precondition', `The query requires an index. Add the following to firestore.indexes.json:\n${missing}`);
+        }
+    }
+
+    private findMissingIndex(requirement: QueryIndexRequirement): string | null {
+        const equalityFields = unique(requirement.equalityFields);
+        const arrayFields = unique(requirement.arrayFields);
+        // Ordering on a field that is already constrained by equality does not affect the index
+        const orderFields = requirement.orderFields.filter((field) => !equalityFields.includes(field.fieldPath));
+
+        const allFields = unique([...equalityFields, ...arrayFields, ...orderFields.map((field) => field.fieldPath)]);
+        if (allFields.length === 0) {
+            return null;
+        }
+
+        if (this.hasCompositeIndex(requirement, equalityFields, arrayFields, orderFields)) {
+            return null;
+        }
+
+        // Equality-only queries are served by merging single-field indexes; a single ordered field needs only its own index
+        if (orderFields.length === 0 || allFields.length === 1) {
+            const missingField = [
+                ...equalityFields.map((fieldPath) => ({ fieldPath, index: { order: 'ASCENDING' } as FirestoreFieldOverrideIndex })),
+                ...arrayFields.map((fieldPath) => ({ fieldPath, index: { arrayConfig: 'CONTAINS' } as FirestoreFieldOverrideIndex })),
+                ...orderFields.map((field) => ({ fieldPath: field.fieldPath, index: { order: field.order } as FirestoreFieldOverrideIndex })),
+            ]
+                .find(({ fieldPath, index }) => !this.hasSingleFieldIndex(requirement.collectionGroup, requirement.queryScope, fieldPath, index));
+
+            if (!missingField) {
+                return null;
+            }
+
+            const override: FirestoreFieldOverride = {
+                collectionGroup: requirement.collectionGroup,
+                fieldPath: missingField.fieldPath,
+                indexes: [{ ...missingField.index, queryScope: requirement.queryScope }],
+            };
+            return `"fieldOverrides": [\n${JSON.stringify(override, null, 2)}\n]`;
+        }
+
+        const index: FirestoreIndexDefinition = {
+            collectionGroup: requirement.collectionGroup,
+            queryScope: requirement.queryScope,
+            fields: [
+                ...equalityFields.map((fieldPath): FirestoreIndexField => ({ fieldPath, order: 'ASCENDING' })),
+                ...arrayFields.map((fieldPath): FirestoreIndexField => ({ fieldPath, arrayConfig: 'CONTAINS' })),
+                ...orderFields.map((field): FirestoreIndexField => ({ fieldPath: field.fieldPath, order: field.order })),
+            ],
+        };
+        return `"indexes": [\n${JSON.stringify(index, null, 2)}\n]`;
+    }
+
+    private hasCompositeIndex(
+        requirement: QueryIndexRequirement,
+        equalityFields: string[],
+        arrayFields: string[],
+        orderFields: QueryIndexRequirement['orderFields'],
+    ): boolean {
+        return (this.config.indexes ?? []).some((index) => {
+            if (index.collectionGroup !== requirement.collectionGroup || index.queryScope !== requirement.queryScope) {
+                return false;
+            }
+
+            const fields = index.fields.filter((field) => field.fieldPath !== '__name__');
+            const prefixLength = equalityFields.length + arrayFields.length;
+            if (fields.length !== prefixLength + orderFields.length) {
+                return false;
+            }
+
+            // Equality and array-contains fields may appear in any order ahead of the ordered fields
+            const prefix = fields.slice(0, prefixLength);
+            const prefixMatches = equalityFields.every((fieldPath) => prefix.some((field) => field.fieldPath === fieldPath && field.order !== undefined))
+                && arrayFields.every((fieldPath) => prefix.some((field) => field.fieldPath === fieldPath && field.arrayConfig === 'CONTAINS'));
+            if (!prefixMatches) {
+                return false;
+            }
+
+            // Ordered fields must match in sequence; an index can also be scanned in reverse
+            const suffix = fields.slice(prefixLength);
+            const forward = orderFields.every((field, i) => suffix[i].fieldPath === field.fieldPath && suffix[i].order === field.order);
+            const reverse = orderFields.every((field, i) => suffix[i].fieldPath === field.fieldPath && suffix[i].order !== undefined && suffix[i].order !== field.order);
+            return forward || reverse;
+        });
+    }
+
+    private hasSingleFieldIndex(collectionGroup: string, queryScope: FirestoreIndexQueryScope, fieldPath: string, wanted: FirestoreFieldOverrideIndex): boolean {
+        const override = (this.config.fieldOverrides ?? []).find((entry) => entry.collectionGroup === collectionGroup && entry.fieldPath === fieldPath);
+
+        if (!override) {
+            // Firestore creates ascending, descending and array-contains indexes automatically, but only for collection scope
+            return queryScope === 'COLLECTION';
+        }
+
+        return override.indexes.some((index) => {
+            if ((index.queryScope ?? 'COLLECTION') !== queryScope) {
+                return false;
+            }
+            if (wanted.arrayConfig) {
+                return index.arrayConfig === wanted.arrayConfig;
+            }
+            // A single-field index can be scanned in either direction
+            return index.order !== undefined;
+        });
+    }
+}
+
+/**
+ * Values in first-seen order, without duplicates
+ */
+export function unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+}
@@ -5,6 +5,8 @@
  * Copied from firebase/functions/src/firestore-wrapper/types.ts for use in test-support.
  */
 
+import type { AggregateSpec, AggregateSpecData, FieldPath, Timestamp } from 'firebase-admin/firestore';
+
 /**
  * Options for set operations
  */
@@ -13,6 +15,34 @@ export interface SetOptions {
     mergeFields?: string[];
 }
 
+/**
+ * Options for getAll() reads
+ */
+export interface ReadOptions {
+    /** Fields to return; other fields are omitted from the snapshots' data */
+    fieldMask?: Array<string | FieldPath>;
+}
+
+/**
+ * Precondition for update and delete operations; at most one condition may be given
+ */
+export interface Precondition {
+    /** Only write if the document was last updated at exactly this time */
+    lastUpdateTime?: Timestamp;
+
+    /** Only write if the document exists (true) or does not exist (false) */
+    exists?: boolean;
+}
+
+/**
+ * Options for runTransaction
+ * Read-write transactions are retried up to maxAttempts times (default 5) on contention;
+ * read-only transactions cannot write and optionally read at a point in time.
+ */
+export type TransactionOptions =
+    | { readOnly?: false; maxAttempts?: number; }
+    | { readOnly: true; readTime?: Timestamp; };
+
 /**
  * Where filter operations
  */
@@ -23,11 +53,38 @@ export type WhereFilterOp = '<' | '<=' | '==' | '!=' | '>=' | '>' | 'array-conta
  */
 export type OrderByDirection = 'asc' | 'desc';
 
+/**
+ * Document data as stored in Firestore
+ */
+export interface DocumentData {
+    [field: string]: any;
+}
+
+/**
+ * Converts between application model objects and the data stored in Firestore,
+ * applied by references and queries created with withConverter()
+ */
+export interface FirestoreDataConverter<AppModelType, DbModelType extends DocumentData = DocumentData> {
+    /**
+     * Convert a model object to Firestore data when writing with set() or create()
+     * @param modelObject - Model to convert (partial when written with merge options)
+     * @param options - Set options, passed for merge writes
+     */
+    toFirestore(modelObject: AppModelType): DbModelType;
+    toFirestore(modelObject: Partial<AppModelType>, options: SetOptions): Partial<DbModelType>;
+
+    /**
+     * Convert a stored document to a model object; only called for documents that exist
+     * @param snapshot - Snapshot holding the stored data
+     */
+    fromFirestore(snapshot: IDocumentSnapshot<DbModelType>): AppModelType;
+}
+
 /**
  * Wrapper for Firestore DocumentSnapshot
  * Abstracts the actual Firestore DocumentSnapshot
  */
-export interface IDocumentSnapshot {
+export interface IDocumentSnapshot<T = any> {
     /** Whether the document exists */
     readonly exists: boolean;
 
@@ -35,22 +92,53 @@ export interface IDocumentSnapshot {
     readonly id: string;
 
     /** Reference to the document */
-    readonly ref: IDocumentReference;
+    readonly ref: IDocumentReference<T>;
+
+    /** Time the document was created, or undefined if it doesn't exist */
+    readonly createTime?: Timestamp;
+
+    /** Time the document was last written, or undefined if it doesn't exist */
+    readonly updateTime?: Timestamp;
+
+    /** Time at which the snapshot was read */
+    readonly readTime: Timestamp;
 
     /**
      * Get the document's data
-     * @returns Document data or undefined if document doesn't exist
+     * @returns Document data (converted when the reference has a converter) or undefined if document doesn't exist
      */
-    data(): any | undefined;
+    data(): T | undefined;
+}
+
+/**
+ * Kind of change to a document in a query result
+ */
+export type DocumentChangeType = 'added' | 'removed' | 'modified';
+
+/**
+ * A change to a query result since the previous snapshot
+ */
+export interface IDocumentChange<T = any> {
+    /** Whether the document was added, removed or modified */
+    readonly type: DocumentChangeType;
+
+    /** The document affected by the change (its last known state when removed) */
+    readonly doc: IDocumentSnapshot<T>;
+
+    /** Position of the document in the previous snapshot, or -1 if it was added */
+    readonly oldIndex: number;
+
+    /** Position of the document in this snapshot, or -1 if it was removed */
+    readonly newIndex: number;
 }
 
 /**
  * Wrapper for Firestore QuerySnapshot
  * Abstracts the actual Firestore QuerySnapshot
  */
-export interface IQuerySnapshot {
+export interface IQuerySnapshot<T = any> {
     /** Array of document snapshots */
-    readonly docs: IDocumentSnapshot[];
+    readonly docs: IDocumentSnapshot<T>[];
 
     /** True if there are no documents */
     readonly empty: boolean;
@@ -58,42 +146,52 @@ export interface IQuerySnapshot {
     /** Number of documents in the result set */
     readonly size: number;
 
+    /** Time at which the query was executed */
+    readonly readTime: Timestamp;
+
+    /**
+     * Changes since the previous snapshot delivered to the same listener;
+     * every document is reported as added for the first snapshot or a one-off get()
+     * @returns Document changes, with indexes applied in order
+     */
+    docChanges(): IDocumentChange<T>[];
+
     /**
      * Iterate over query results
      * @param callback - Function to call for each document
      */
-    forEach(callback: (result: IDocumentSnapshot) => void): void;
+    forEach(callback: (result: IDocumentSnapshot<T>) => void): void;
 }
 
 /**
- * Wrapper for Firestore Aggregate Query (for count operations)
- * Abstracts the count query result
+ * Wrapper for Firestore Aggregate Query (count, sum and average operations)
+ * Abstracts the aggregate query result
  */
-export interface IAggregateQuery {
+export interface IAggregateQuery<TData = { count: number; }> {
     /**
      * Execute the aggregate query
      * @returns Aggregate query result
      */
-    get(): Promise<IAggregateQuerySnapshot>;
+    get(): Promise<IAggregateQuerySnapshot<TData>>;
 }
 
 /**
  * Wrapper for Firestore Aggregate Query Snapshot
- * Contains the result of count queries
+ * Contains the result of aggregate queries
  */
-export interface IAggregateQuerySnapshot {
+export interface IAggregateQuerySnapshot<TData = { count: number; }> {
     /**
      * Get the aggregate data (e.g., count)
-     * @returns Object with count property
+     * @returns Object keyed by the aliases of the requested aggregations
      */
-    data(): { count: number; };
+    data(): TData;
 }
 
 /**
  * Wrapper for Firestore DocumentReference
  * Abstracts the actual Firestore DocumentReference
  */
-export interface IDocumentReference {
+export interface IDocumentReference<T = any> {
     /** The document's unique identifier */
     readonly id: string;
 
@@ -107,29 +205,44 @@ export interface IDocumentReference {
      */
     collection(collectionPath: string): ICollectionReference;
 
+    /**
+     * List the subcollections of this document that contain documents
+     * @returns Collection references
+     */
+    listCollections(): Promise<ICollectionReference[]>;
+
     /**
      * Fetch the document
      * @returns Document snapshot
      */
-    get(): Promise<IDocumentSnapshot>;
+    get(): Promise<IDocumentSnapshot<T>>;
 
     /**
      * Write to the document
-     * @param data - Document data
+     * @param data - Document data (converted with toFirestore when the reference has a converter)
      * @param options - Set options (merge, mergeFields)
      */
-    set(data: any, options?: SetOptions): Promise<void>;
+    set(data: T): Promise<void>;
+    set(data: Partial<T>, options: SetOptions): Promise<void>;
+
+    /**
+     * Create the document, failing with ALREADY_EXISTS if it exists
+     * @param data - Document data (converted with toFirestore when the reference has a converter)
+     */
+    create(data: T): Promise<void>;
 
     /**
      * Update the document
      * @param data - Fields to update
+     * @param precondition - Only update if the document was last updated at this time
      */
-    update(data: any): Promise<void>;
+    update(data: any, precondition?: Precondition): Promise<void>;
 
     /**
      * Delete the document
+     * @param precondition - Only delete if the document exists or was last updated at this time
      */
-    delete(): Promise<void>;
+    delete(precondition?: Precondition): Promise<void>;
 
     /**
      * Listen for realtime updates to the document.
@@ -137,17 +250,25 @@ export interface IDocumentReference {
      * @param onError - optional error handler
      * @returns unsubscribe function
      */
-    onSnapshot(onNext: (snapshot: IDocumentSnapshot) => void, onError?: (error: Error) => void): () => void;
+    onSnapshot(onNext: (snapshot: IDocumentSnapshot<T>) => void, onError?: (error: Error) => void): () => void;
+
+    /**
+     * Apply a converter to reads and writes through this reference
+     * @param converter - Converter to use, or null to remove the current one
+     * @returns Reference with the converter applied
+     */
+    withConverter<U>(converter: FirestoreDataConverter<U>): IDocumentReference<U>;
+    withConverter(converter: null): IDocumentReference<DocumentData>;
 
     /** Access to the parent property for path traversal */
-    readonly parent: ICollectionReference | null;
+    readonly parent: ICollectionReference<T> | null;
 }
 
 /**
  * Wrapper for Firestore Query
  * Abstracts the actual Firestore Query
  */
-export interface IQuery {
+export interface IQuery<T = any> {
     /**
      * Filter query results
      * @param fieldPath - Field to filter on (string, FieldPath, or Filter)
@@ -155,7 +276,7 @@ export interface IQuery {
      * @param value - Value to compare against (optional when using Filter)
      * @returns New query with filter applied
      */
-    where(fieldPath: string | any, opStr?: WhereFilterOp | any, value?: any): IQuery;
+    where(fieldPath: string | any, opStr?: WhereFilterOp | any, value?: any): IQuery<T>;
 
     /**
      * Order query results
@@ -163,28 +284,57 @@ export interface IQuery {
      * @param directionStr - Sort direction (asc or desc)
      * @returns New query with ordering applied
      */
-    orderBy(fieldPath: string, directionStr?: OrderByDirection): IQuery;
+    orderBy(fieldPath: string, directionStr?: OrderByDirection): IQuery<T>;
 
     /**
      * Limit number of results
      * @param limit - Maximum number of documents to return
      * @returns New query with limit applied
      */
-    limit(limit: number): IQuery;
+    limit(limit: number): IQuery<T>;
+
+    /**
+     * Limit the query to the last matching documents
+     * Requires at least one orderBy clause
+     * @param limit - Maximum number of documents to return
+     * @returns New query with limit applied from the end of the result set
+     */
+    limitToLast(limit: number): IQuery<T>;
 
     /**
      * Skip a number of results
      * @param offset - Number of documents to skip
      * @returns New query with offset applied
      */
-    offset(offset: number): IQuery;
+    offset(offset: number): IQuery<T>;
+
+    /**
+     * Start query at a document or field values (inclusive)
+     * @param fieldValues - Document snapshot or field values to start at
+     * @returns New query starting at the specified point
+     */
+    startAt(...fieldValues: any[]): IQuery<T>;
 
     /**
      * Start query after a document or field values
      * @param fieldValues - Document snapshot or field values to start after
      * @returns New query starting after the specified point
      */
-    startAfter(...fieldValues: any[]): IQuery;
+    startAfter(...fieldValues: any[]): IQuery<T>;
+
+    /**
+     * End query at a document or field values (inclusive)
+     * @param fieldValues - Document snapshot or field values to end at
+     * @returns New query ending at the specified point
+     */
+    endAt(...fieldValues: any[]): IQuery<T>;
+
+    /**
+     * End query before a document or field values
+     * @param fieldValues - Document snapshot or field values to end before
+     * @returns New query ending before the specified point
+     */
+    endBefore(...fieldValues: any[]): IQuery<T>;
 
     /**
      * Select specific fields to retrieve
@@ -197,7 +347,7 @@ export interface IQuery {
      * Execute the query
      * @returns Query result snapshot
      */
-    get(): Promise<IQuerySnapshot>;
+    get(): Promise<IQuerySnapshot<T>>;
 
     /**
      * Get count of documents matching the query
@@ -205,26 +355,61 @@ export interface IQuery {
      */
     count(): IAggregateQuery;
 
+    /**
+     * Compute aggregations (count, sum, average) over the documents matching the query
+     * @param aggregateSpec - Aliases mapped to AggregateField.count(), AggregateField.sum() or AggregateField.average()
+     * @returns Aggregate query for the requested aggregations
+     */
+    aggregate<T extends AggregateSpec>(aggregateSpec: T): IAggregateQuery<AggregateSpecData<T>>;
+
     /**
      * Listen for realtime updates to the query results.
      * @param onNext - callback invoked with each snapshot
      * @param onError - optional error handler
      * @returns unsubscribe function
      */
-    onSnapshot(onNext: (snapshot: IQuerySnapshot) => void, onError?: (error: Error) => void): () => void;
+    onSnapshot(onNext: (snapshot: IQuerySnapshot<T>) => void, onError?: (error: Error) => void): () => void;
+
+    /**
+     * Apply a converter to the documents returned by this query
+     * @param converter - Converter to use, or null to remove the current one
+     * @returns Query with the converter applied
+     */
+    withConverter<U>(converter: FirestoreDataConverter<U>): IQuery<U>;
+    withConverter(converter: null): IQuery<DocumentData>;
 }
 
 /**
  * Wrapper for Firestore CollectionReference
  * Abstracts the actual Firestore CollectionReference
  */
-export interface ICollectionReference extends IQuery {
+export interface ICollectionReference<T = any> extends IQuery<T> {
+    /** Collection ID (last path segment) */
+    readonly id: string;
+
+    /** Full path to the collection */
+    readonly path: string;
+
     /**
      * Get a reference to a document
      * @param documentId - Optional document ID (auto-generated if omitted)
      * @returns Document reference
      */
-    doc(documentId?: string): IDocumentReference;
+    doc(documentId?: string): IDocumentReference<T>;
+
+    /**
+     * List the documents in this collection, including missing documents that only have subcollections
+     * @returns Document references
+     */
+    listDocuments(): Promise<IDocumentReference<T>[]>;
+
+    /**
+     * Apply a converter to reads and writes through this collection
+     * @param converter - Converter to use, or null to remove the current one
+     * @returns Collection reference with the converter applied
+     */
+    withConverter<U>(converter: FirestoreDataConverter<U>): ICollectionReference<U>;
+    withConverter(converter: null): ICollectionReference<DocumentData>;
 
     /** The parent document reference (null for root collections) */
     readonly parent: IDocumentReference | null;
@@ -240,14 +425,21 @@ export interface ITransaction {
      * @param documentRef - Document reference to read
      * @returns Document snapshot
      */
-    get(documentRef: IDocumentReference): Promise<IDocumentSnapshot>;
+    get<T>(documentRef: IDocumentReference<T>): Promise<IDocumentSnapshot<T>>;
 
     /**
      * Read query results within the transaction
      * @param query - Query to execute
      * @returns Query snapshot
      */
-    get(query: IQuery): Promise<IQuerySnapshot>;
+    get<T>(query: IQuery<T>): Promise<IQuerySnapshot<T>>;
+
+    /**
+     * Read multiple documents within the transaction
+     * @param documentRefsOrReadOptions - Document references, optionally followed by read options
+     * @returns Document snapshots in the order the references were given
+     */
+    getAll<T = any>(...documentRefsOrReadOptions: Array<IDocumentReference<T> | ReadOptions>): Promise<IDocumentSnapshot<T>[]>;
 
     /**
      * Write to a document within the transaction
@@ -256,22 +448,25 @@ export interface ITransaction {
      * @param options - Set options
      * @returns This transaction for chaining
      */
-    set(documentRef: IDocumentReference, data: any, options?: SetOptions): ITransaction;
+    set<T>(documentRef: IDocumentReference<T>, data: T): ITransaction;
+    set<T>(documentRef: IDocumentReference<T>, data: Partial<T>, options: SetOptions): ITransaction;
 
     /**
      * Update a document within the transaction
      * @param documentRef - Document reference to update
      * @param data - Fields to update
+     * @param precondition - Only update if the document was last updated at this time
      * @returns This transaction for chaining
      */
-    update(documentRef: IDocumentReference, data: any): ITransaction;
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): ITransaction;
 
     /**
      * Delete a document within the transaction
      * @param documentRef - Document reference to delete
+     * @param precondition - Only delete if the document exists or was last updated at this time
      * @returns This transaction for chaining
      */
-    delete(documentRef: IDocumentReference): ITransaction;
+    delete(documentRef: IDocumentReference, precondition?: Precondition): ITransaction;
 
     /**
      * Create a new document within the transaction (fails if exists)
@@ -279,7 +474,7 @@ export interface ITransaction {
      * @param data - Document data
      * @returns This transaction for chaining
      */
-    create(documentRef: IDocumentReference, data: any): ITransaction;
+    create<T>(documentRef: IDocumentReference<T>, data: T): ITransaction;
 }
 
 /**
@@ -294,29 +489,133 @@ export interface IWriteBatch {
      * @param options - Set options
      * @returns This batch for chaining
      */
-    set(documentRef: IDocumentReference, data: any, options?: SetOptions): IWriteBatch;
+    set<T>(documentRef: IDocumentReference<T>, data: T): IWriteBatch;
+    set<T>(documentRef: IDocumentReference<T>, data: Partial<T>, options: SetOptions): IWriteBatch;
 
     /**
      * Update a document in the batch
      * @param documentRef - Document reference to update
      * @param data - Fields to update
+     * @param precondition - Only update if the document was last updated at this time
      * @returns This batch for chaining
      */
-    update(documentRef: IDocumentReference, data: any): IWriteBatch;
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): IWriteBatch;
 
     /**
      * Delete a document in the batch
      * @param documentRef - Document reference to delete
+     * @param precondition - Only delete if the document exists or was last updated at this time
      * @returns This batch for chaining
      */
-    delete(documentRef: IDocumentReference): IWriteBatch;
+    delete(documentRef: IDocumentReference, precondition?: Precondition): IWriteBatch;
 
     /**
-     * Commit the batch
+     * Create a new document in the batch (the commit fails if it exists)
+     * @param documentRef - Document reference to create
+     * @param data - Document data
+     * @returns This batch for chaining
+     */
+    create<T>(documentRef: IDocumentReference<T>, data: T): IWriteBatch;
+
+    /**
+     * Commit the batch (at most 500 writes; a batch can only be committed once)
      */
     commit(): Promise<void>;
 }
 
+/**
+ * Result of a single BulkWriter write
+ */
+export interface IWriteResult {
+    /** Time the write was applied */
+    readonly writeTime: Timestamp;
+}
+
+/**
+ * Kind of write a BulkWriter operation performed
+ */
+export type BulkWriterOperationType = 'create' | 'set' | 'update' | 'delete';
+
+/**
+ * Error passed to BulkWriter error callbacks, and rejected from the operation's promise when it is not retried
+ */
+export interface IBulkWriterError extends Error {
+    /** gRPC status code of the failure */
+    readonly code: number;
+
+    /** Document the operation wrote to */
+    readonly documentRef: IDocumentReference;
+
+    /** Kind of write that failed */
+    readonly operationType: BulkWriterOperationType;
+
+    /** Number of times the operation has failed, including this failure */
+    readonly failedAttempts: number;
+}
+
+/**
+ * Wrapper for Firestore BulkWriter
+ * Writes are applied individually (not atomically) and failed writes can be retried
+ */
+export interface IBulkWriter {
+    /**
+     * Create a new document (fails if it exists)
+     * @param documentRef - Document reference to create
+     * @param data - Document data
+     * @returns Result of the write once it is applied
+     */
+    create<T>(documentRef: IDocumentReference<T>, data: T): Promise<IWriteResult>;
+
+    /**
+     * Write to a document
+     * @param documentRef - Document reference to write to
+     * @param data - Document data
+     * @param options - Set options
+     * @returns Result of the write once it is applied
+     */
+    set<T>(documentRef: IDocumentReference<T>, data: T): Promise<IWriteResult>;
+    set<T>(documentRef: IDocumentReference<T>, data: Partial<T>, options: SetOptions): Promise<IWriteResult>;
+
+    /**
+     * Update a document
+     * @param documentRef - Document reference to update
+     * @param data - Fields to update
+     * @param precondition - Only update if the document was last updated at this time
+     * @returns Result of the write once it is applied
+     */
+    update(documentRef: IDocumentReference, data: any, precondition?: Precondition): Promise<IWriteResult>;
+
+    /**
+     * Delete a document
+     * @param documentRef - Document reference to delete
+     * @param precondition - Only delete if the document exists or was last updated at this time
+     * @returns Result of the write once it is applied
+     */
+    delete(documentRef: IDocumentReference, precondition?: Precondition): Promise<IWriteResult>;
+
+    /**
+     * Set the callback run after each successful write
+     * @param callback - Receives the written document and the write result
+     */
+    onWriteResult(callback: (documentRef: IDocumentReference, result: IWriteResult) => void): void;
+
+    /**
+     * Set the callback deciding whether a failed write is retried
+     * @param shouldRetryCallback - Returns true to retry the write
+     */
+    onWriteError(shouldRetryCallback: (error: IBulkWriterError) => boolean): void;
+
+    /**
+     * Apply all writes enqueued so far, including their retries
+     */
+    flush(): Promise<void>;
+
+    /**
+     * Flush all enqueued writes and reject any further writes
+     */
+    close(): Promise<void>;
+}
+
 /**
  * Wrapper for Firestore Database
  * This is the main entry point for all Firestore operations
@@ -343,6 +642,13 @@ export interface IFirestoreDatabase {
      */
     collectionGroup(collectionId: string): IQuery;
 
+    /**
+     * Read multiple documents in a single call
+     * @param documentRefsOrReadOptions - Document references, optionally followed by read options
+     * @returns Document snapshots in the order the references were given
+     */
+    getAll<T = any>(...documentRefsOrReadOptions: Array<IDocumentReference<T> | ReadOptions>): Promise<IDocumentSnapshot<T>[]>;
+
     /**
      * List all root-level collections
      * @returns Array of collection references
@@ -352,13 +658,27 @@ export interface IFirestoreDatabase {
     /**
      * Run an atomic transaction
      * @param updateFunction - Function that performs transactional operations
+     * @param options - Read-only mode, read time or maximum attempts
      * @returns Result of the transaction
      */
-    runTransaction<T>(updateFunction: (transaction: ITransaction) => Promise<T>): Promise<T>;
+    runTransaction<T>(updateFunction: (transaction: ITransaction) => Promise<T>, options?: TransactionOptions): Promise<T>;
 
     /**
      * Create a batch for multiple operations
      * @returns Write batch
      */
     batch(): IWriteBatch;
+
+    /**
+     * Create a BulkWriter for large numbers of independent writes
+     * @returns Bulk writer
+     */
+    bulkWriter(): IBulkWriter;
+
+    /**
+     * Delete a document or collection together with every document nested beneath it
+     * @param ref - Document or collection to delete
+     * @param bulkWriter - Writer to perform the deletes with (a default writer is used if omitted)
+     */
+    recursiveDelete(ref: ICollectionReference | IDocumentReference, bulkWriter?: IBulkWriter): Promise<void>;
 }
@@ -1,7 +1,14 @@
 export type {
+    BulkWriterOperationType,
+    DocumentChangeType,
+    DocumentData,
+    FirestoreDataConverter,
     IAggregateQuery,
     IAggregateQuerySnapshot,
+    IBulkWriter,
+    IBulkWriterError,
     ICollectionReference,
+    IDocumentChange,
     IDocumentReference,
     IDocumentSnapshot,
     IFirestoreDatabase,
@@ -9,19 +16,35 @@ export type {
     IQuerySnapshot,
     ITransaction,
     IWriteBatch,
+    IWriteResult,
     OrderByDirection,
+    Precondition,
+    ReadOptions,
     SetOptions,
+    TransactionOptions,
     WhereFilterOp,
 } from './firestore-types';
 
-export { FieldPath, FieldValue, Filter, Timestamp } from 'firebase-admin/firestore';
+export { AggregateField, FieldPath, FieldValue, Filter, Timestamp } from 'firebase-admin/firestore';
 export { createCloudTasksClient } from './admin-cloudtasks';
 export { createFirestoreDatabase } from './admin-firestore';
 export { createStorage } from './admin-storage';
+export { FirestoreError, type FirestoreErrorCode } from './firestore-errors';
+export type { FirestoreFieldOverride, FirestoreIndexConfig, FirestoreIndexDefinition, FirestoreIndexField } from './firestore-indexes';
 export type { ICloudTasksClient } from './cloudtasks-types';
 export type { IStorage, IStorageBucket, IStorageFile, StorageFileContent, StorageFileMetadata, StorageSaveOptions } from './storage-types';
 export { type EnqueuedTask, StubCloudTasksClient } from './StubCloudTasksClient';
-export { type FirestoreTriggerChange, type FirestoreTriggerChangeHandler, type FirestoreTriggerEventType, type FirestoreTriggerHandlers, StubFirestoreDatabase } from './StubFirestoreDatabase';
+export {
+    type FirestoreFaultOperation,
+    type FirestoreFaultOptions,
+    type FirestoreRandomFaultOptions,
+    type FirestoreTriggerChange,
+    type FirestoreTriggerChangeHandler,
+    type FirestoreTriggerEventType,
+    type FirestoreTriggerHandlers,
+    StubFirestoreDatabase,
+    type StubFirestoreDatabaseOptions,
+} from './StubFirestoreDatabase';
 export { type SeedFileOptions, type StoredFileSnapshot, StubStorage, StubStorageBucket, StubStorageFile, type StubStorageOptions } from './StubStorage';
 export {
     attachTriggersToStub,